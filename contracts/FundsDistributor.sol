@@ -5,14 +5,40 @@ import { PausableUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/P
 import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import { EIP712Upgradeable } from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import { ReentrancyGuardUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { Address } from "@openzeppelin/contracts/utils/Address.sol";
 import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /// @title FundsDistributor
-/// @dev A contract for distributing ERC20 tokens with upgradeable and pausable functionality.
-contract FundsDistributor is Initializable, PausableUpgradeable, AccessControlUpgradeable, UUPSUpgradeable {
+/// @dev A contract for distributing ERC20 tokens and native currency with upgradeable and pausable functionality.
+/// Each signed claim names the token it pays out in, which must be on the admin-managed allowlist.
+/// Large distributions can instead be published as Merkle roots per epoch and claimed with proofs.
+/// Cumulative vouchers attest the lifetime entitlement of a user instead, so any newer voucher supersedes older ones.
+/// Vouchers above the vesting threshold of their token open a linear vesting schedule instead of paying out in full.
+/// Signed claims are capped per claim, per user and in total over a rolling window by the rate limits of their token.
+/// Admins can revoke outstanding vouchers by their claim hash or invalidate them in bulk by bumping the nonce of a user.
+/// Replay protection is keyed on the claim digest, so every encoding of a signature is covered at once.
+/// The admin manages the treasury, which keeps a tally of the amount distributed per token for reconciliation.
+/// Reward programs can run as campaigns, each with its own token, budget, schedule and pause switch.
+/// A split voucher pays a single reward to several recipients, such as the user and a referrer.
+/// The contract holds the DEFAULT_ADMIN_ROLE itself, so changing the default token, the token allowlist, the limits
+/// or the vesting policies, publishing epochs, creating or unpausing campaigns, adding signers, moving funds out,
+/// granting or revoking roles and upgrading can only happen through operations executed a configurable delay after
+/// they were scheduled. Defensive actions, such as pausing, removing signers, disallowing tokens, revoking vouchers
+/// and cancelling operations, take effect right away.
+contract FundsDistributor is
+    Initializable,
+    PausableUpgradeable,
+    AccessControlUpgradeable,
+    EIP712Upgradeable,
+    ReentrancyGuardUpgradeable,
+    UUPSUpgradeable
+{
     using SafeERC20 for IERC20;
 
     /// @notice Role for pausing the contract
@@ -24,15 +50,186 @@ contract FundsDistributor is Initializable, PausableUpgradeable, AccessControlUp
     /// @notice Role for admin functions
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
 
-    // The address of the ERC20 reward token.
+    /// @notice Role for signing reward claims
+    bytes32 public constant SIGNER_ROLE = keccak256("SIGNER_ROLE");
+
+    /// @notice Pseudo-address designating native currency as the reward token
+    address public constant NATIVE_TOKEN = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+
+    /// @notice The delay of sensitive operations until it is changed through an operation
+    uint256 public constant DEFAULT_OPERATION_DELAY = 2 days;
+
+    /// @notice The largest number of recipients of a split voucher
+    uint256 public constant MAX_SPLIT_RECIPIENTS = 10;
+
+    /// @notice A signed reward claim submitted in a batch
+    struct Claim {
+        address token;
+        uint256 amount;
+        uint256 nonce;
+        uint256 validAfter;
+        uint256 validUntil;
+        bytes signature;
+    }
+
+    /// @notice A Merkle distribution published by the admin
+    struct Epoch {
+        bytes32 merkleRoot;
+        address token;
+        uint256 budget;
+        uint256 claimed;
+    }
+
+    /// @notice The vesting terms applied to large vouchers of a token
+    struct VestingPolicy {
+        uint256 threshold;
+        uint64 cliff;
+        uint64 duration;
+    }
+
+    /// @notice A linear vesting schedule opened by a large voucher
+    struct VestingSchedule {
+        address token;
+        uint64 start;
+        uint64 cliff;
+        uint64 duration;
+        uint256 total;
+        uint256 released;
+    }
+
+    /// @notice The caps on signed claims of a token, zero meaning unlimited
+    struct RateLimits {
+        uint256 maxPerClaim;
+        uint256 maxPerUser;
+        uint256 maxTotal;
+        uint64 window;
+    }
+
+    /// @notice The amount counted against a rate limit as of its last update, released linearly over the window
+    struct WindowUsage {
+        uint256 updatedAt;
+        uint256 amount;
+    }
+
+    /// @notice A reward program funded from the treasury with its own budget and schedule
+    struct Campaign {
+        address token;
+        uint64 start;
+        uint64 end;
+        bool active;
+        uint256 budget;
+        uint256 spent;
+    }
+
+    /// @notice The share of a split reward paid to one recipient
+    struct Payout {
+        address recipient;
+        uint256 amount;
+    }
+
+    /// @notice The outcome a signed claim would have if submitted now, as reported by {previewClaim}
+    enum ClaimStatus {
+        Ok,
+        WrongChain,
+        Paused,
+        NotYetValid,
+        Expired,
+        TokenNotAllowed,
+        Used,
+        WrongNonce,
+        Revoked,
+        BadSigner,
+        LimitExceeded,
+        InsufficientBalance
+    }
+
+    /// @notice EIP-712 type hash of the signed reward claim
+    bytes32 public constant CLAIM_TYPEHASH = keccak256(
+        "Claim(address user,address token,uint256 amount,uint256 nonce,uint256 validAfter,uint256 validUntil)"
+    );
+
+    /// @notice EIP-712 type hash of the signed cumulative reward claim
+    bytes32 public constant CUMULATIVE_CLAIM_TYPEHASH = keccak256(
+        "CumulativeClaim(address user,address token,uint256 cumulativeAmount,uint256 validAfter,uint256 validUntil)"
+    );
+
+    /// @notice EIP-712 type hash of the signed campaign reward claim
+    bytes32 public constant CAMPAIGN_CLAIM_TYPEHASH = keccak256(
+        "CampaignClaim(address user,uint256 campaignId,uint256 amount,uint256 nonce,uint256 validAfter,uint256 validUntil)"
+    );
+
+    /// @notice EIP-712 type hash of the signed split reward claim
+    bytes32 public constant SPLIT_CLAIM_TYPEHASH = keccak256(
+        "SplitClaim(address user,address token,Payout[] payouts,uint256 nonce,uint256 validAfter,uint256 validUntil)"
+        "Payout(address recipient,uint256 amount)"
+    );
+
+    /// @notice EIP-712 type hash of a payout of a split reward claim
+    bytes32 public constant PAYOUT_TYPEHASH = keccak256("Payout(address recipient,uint256 amount)");
+
+    // The address of the default ERC20 reward token.
     address internal _token;
 
     // The mapping of the user to current nonce.
     mapping(address => uint256) internal _userNonces;
 
-    // The mapping of the user signatures.
+    // The mapping of the user signatures used before replay protection was keyed on the claim digest.
     mapping(bytes32 => bool) internal _usedSignatures;
 
+    // The mapping of the token to its allowlist status.
+    mapping(address => bool) internal _allowedTokens;
+
+    // The number of published Merkle epochs.
+    uint256 internal _epochCount;
+
+    // The mapping of the epoch ID to the epoch.
+    mapping(uint256 => Epoch) internal _epochs;
+
+    // The mapping of the epoch ID to the bitmap of claimed leaf indexes.
+    mapping(uint256 => mapping(uint256 => uint256)) internal _claimedEpochLeaves;
+
+    // The mapping of the user to the amount claimed to date with cumulative vouchers per token.
+    mapping(address => mapping(address => uint256)) internal _cumulativeClaimed;
+
+    // The mapping of the token to its vesting policy.
+    mapping(address => VestingPolicy) internal _vestingPolicies;
+
+    // The mapping of the user to the vesting schedules keyed by the nonce of the voucher that opened them.
+    mapping(address => mapping(uint256 => VestingSchedule)) internal _vestingSchedules;
+
+    // The mapping of the token to its rate limits.
+    mapping(address => RateLimits) internal _rateLimits;
+
+    // The mapping of the token to the usage of each user counted against the rate limits.
+    mapping(address => mapping(address => WindowUsage)) internal _userUsage;
+
+    // The mapping of the token to the usage of all users counted against the rate limits.
+    mapping(address => WindowUsage) internal _globalUsage;
+
+    // The mapping of the EIP-712 claim hash to its revocation status.
+    mapping(bytes32 => bool) internal _revokedClaims;
+
+    // The mapping of the EIP-712 claim hash to its usage status.
+    mapping(bytes32 => bool) internal _usedClaims;
+
+    // The mapping of the token to the total amount paid out as rewards.
+    mapping(address => uint256) internal _distributed;
+
+    // The mapping of the token to the amount held for vesting schedules that has not been released yet.
+    mapping(address => uint256) internal _vestingReserves;
+
+    // The number of created campaigns.
+    uint256 internal _campaignCount;
+
+    // The mapping of the campaign ID to the campaign.
+    mapping(uint256 => Campaign) internal _campaigns;
+
+    // The delay between scheduling a sensitive operation and executing it, in seconds.
+    uint256 internal _operationDelay;
+
+    // The mapping of the operation ID to the timestamp from which it can be executed, zero if not scheduled.
+    mapping(bytes32 => uint256) internal _operations;
+
     /**
     * @notice Thrown when the chain ID in the signature does not match the current chain ID.
      */
@@ -59,23 +256,339 @@ contract FundsDistributor is Initializable, PausableUpgradeable, AccessControlUp
     error InvalidSignature();
 
     /**
-     * @notice Thrown when the signature has already been used for a reward claim.
+     * @notice Thrown when the reward claim has already been used.
      */
     error SignatureAlreadyUsed();
 
+    /**
+     * @notice Thrown when attempting to remove an address that is not an authorized signer.
+     */
+    error UnknownSigner();
+
+    /**
+     * @notice Thrown when the voucher is claimed after its validity window has ended.
+     */
+    error VoucherExpired();
+
+    /**
+     * @notice Thrown when the voucher is claimed before its validity window has started.
+     */
+    error VoucherNotYetValid();
+
+    /**
+     * @notice Thrown when the token is not on the allowlist of reward tokens.
+     */
+    error TokenNotAllowed();
+
+    /**
+     * @notice Thrown when the recipient rejects a native currency payout.
+     */
+    error NativeTransferFailed();
+
+    /**
+     * @notice Thrown when a batch of claims is empty.
+     */
+    error EmptyBatch();
+
+    /**
+     * @notice Thrown when attempting to publish an epoch with a zero Merkle root.
+     */
+    error InvalidMerkleRoot();
+
+    /**
+     * @notice Thrown when the epoch has not been published.
+     */
+    error UnknownEpoch();
+
+    /**
+     * @notice Thrown when the Merkle proof does not match the root of the epoch.
+     */
+    error InvalidMerkleProof();
+
+    /**
+     * @notice Thrown when the leaf of the epoch has already been claimed.
+     */
+    error EpochRewardAlreadyClaimed();
+
+    /**
+     * @notice Thrown when the claim would exceed the budget of the epoch.
+     */
+    error EpochBudgetExceeded();
+
+    /**
+     * @notice Thrown when the cumulative entitlement has already been claimed in full.
+     */
+    error NothingToClaim();
+
+    /**
+     * @notice Thrown when the cliff of a vesting policy is longer than its duration or the duration is zero.
+     */
+    error InvalidVestingPolicy();
+
+    /**
+     * @notice Thrown when per-window limits are configured with a zero window.
+     */
+    error InvalidRateLimits();
+
+    /**
+     * @notice Thrown when the amount of a claim exceeds the per-claim limit of the token.
+     */
+    error ClaimLimitExceeded();
+
+    /**
+     * @notice Thrown when a claim would exceed the per-user limit of the token over its window.
+     */
+    error UserLimitExceeded();
+
+    /**
+     * @notice Thrown when a claim would exceed the total limit of the token over its window.
+     */
+    error GlobalLimitExceeded();
+
+    /**
+     * @notice Thrown when the voucher has been revoked by an admin.
+     */
+    error ClaimRevoked();
+
+    /**
+     * @notice Thrown when the native currency sent does not match the amount to fund,
+     * or when a recipient of a split voucher is paid nothing.
+     */
+    error InvalidAmount();
+
+    /**
+     * @notice Thrown when a withdrawal or a payout would dip into the funds reserved for vesting schedules.
+     */
+    error InsufficientFunds();
+
+    /**
+     * @notice Thrown when a claim that cannot vest is above the vesting threshold of its token.
+     */
+    error VestingThresholdExceeded();
+
+    /**
+     * @notice Thrown when the campaign does not exist.
+     */
+    error UnknownCampaign();
+
+    /**
+     * @notice Thrown when a campaign would end before it starts.
+     */
+    error InvalidCampaign();
+
+    /**
+     * @notice Thrown when the campaign is paused, has not started or has ended.
+     */
+    error CampaignNotActive();
+
+    /**
+     * @notice Thrown when the claim would exceed the budget of the campaign.
+     */
+    error CampaignBudgetExceeded();
+
+    /**
+     * @notice Thrown when a split voucher has no recipients, more than MAX_SPLIT_RECIPIENTS or the same one twice.
+     */
+    error InvalidSplit();
+
+    /**
+     * @notice Thrown when an operation is scheduled while the same one is already pending.
+     */
+    error OperationAlreadyScheduled();
+
+    /**
+     * @notice Thrown when an operation that is not pending is executed or cancelled.
+     */
+    error UnknownOperation();
+
+    /**
+     * @notice Thrown when an operation is executed before its delay has passed.
+     * @param readyAt The timestamp from which the operation can be executed.
+     */
+    error OperationNotReady(uint256 readyAt);
+
     /**
      * @notice Emitted when a reward is paid to a user.
      * @param user The address of the user.
+     * @param token The address of the reward token.
      * @param amount The amount of the reward.
      */
-    event RewardPaid(address indexed user, uint256 amount);
+    event RewardPaid(address indexed user, address indexed token, uint256 amount);
 
     /**
-     * @notice Emitted when the token address is configured.
+     * @notice Emitted when the default token address is configured.
      * @param newToken The new token address.
      */
     event TokenConfigured(address indexed newToken);
 
+    /**
+     * @notice Emitted when a token is added to the allowlist of reward tokens.
+     * @param token The address of the token.
+     */
+    event TokenAllowed(address indexed token);
+
+    /**
+     * @notice Emitted when a token is removed from the allowlist of reward tokens.
+     * @param token The address of the token.
+     */
+    event TokenDisallowed(address indexed token);
+
+    /**
+     * @notice Emitted when the contract receives funds for distribution.
+     * @param sender The address of the sender.
+     * @param token The address of the token, or NATIVE_TOKEN for native currency.
+     * @param amount The amount received.
+     */
+    event Funded(address indexed sender, address indexed token, uint256 amount);
+
+    /**
+     * @notice Emitted when an authorized signer is added.
+     * @param signer The address of the signer.
+     */
+    event SignerAdded(address indexed signer);
+
+    /**
+     * @notice Emitted when an authorized signer is removed.
+     * @param signer The address of the signer.
+     */
+    event SignerRemoved(address indexed signer);
+
+    /**
+     * @notice Emitted when a Merkle epoch is published.
+     * @param epochId The ID of the epoch.
+     * @param merkleRoot The Merkle root of the epoch.
+     * @param token The address of the reward token.
+     * @param budget The total amount that can be claimed in the epoch.
+     */
+    event EpochPublished(uint256 indexed epochId, bytes32 merkleRoot, address indexed token, uint256 budget);
+
+    /**
+     * @notice Emitted when a leaf of a Merkle epoch is claimed, along with {RewardPaid}.
+     * @param epochId The ID of the epoch.
+     * @param index The index of the leaf.
+     * @param user The address of the user.
+     */
+    event EpochRewardClaimed(uint256 indexed epochId, uint256 index, address indexed user);
+
+    /**
+     * @notice Emitted when the vesting policy of a token is configured.
+     * @param token The address of the token.
+     * @param threshold The amount above which vouchers are vested, zero if vesting is disabled.
+     * @param cliff The number of seconds before anything vests.
+     * @param duration The number of seconds over which the amount vests.
+     */
+    event VestingPolicyConfigured(address indexed token, uint256 threshold, uint64 cliff, uint64 duration);
+
+    /**
+     * @notice Emitted when a voucher opens a vesting schedule instead of paying out.
+     * @param user The address of the user.
+     * @param claimId The nonce of the voucher.
+     * @param token The address of the reward token.
+     * @param amount The amount to vest.
+     * @param start The timestamp from which the amount vests.
+     * @param cliff The number of seconds before anything vests.
+     * @param duration The number of seconds over which the amount vests.
+     */
+    event VestingCreated(
+        address indexed user,
+        uint256 indexed claimId,
+        address indexed token,
+        uint256 amount,
+        uint64 start,
+        uint64 cliff,
+        uint64 duration
+    );
+
+    /**
+     * @notice Emitted when vested funds are released to a user, along with {RewardPaid}.
+     * @param user The address of the user.
+     * @param claimId The nonce of the voucher that opened the schedule.
+     * @param amount The amount released.
+     */
+    event VestingReleased(address indexed user, uint256 indexed claimId, uint256 amount);
+
+    /**
+     * @notice Emitted when the rate limits of a token are updated.
+     * @param token The address of the token.
+     * @param maxPerClaim The maximum amount of a single claim.
+     * @param maxPerUser The maximum amount claimed by a user within a window.
+     * @param maxTotal The maximum amount claimed by all users within a window.
+     * @param window The length of a window in seconds.
+     */
+    event LimitsUpdated(address indexed token, uint256 maxPerClaim, uint256 maxPerUser, uint256 maxTotal, uint64 window);
+
+    /**
+     * @notice Emitted when a voucher is revoked.
+     * @param claimHash The EIP-712 hash of the revoked claim.
+     */
+    event VoucherRevoked(bytes32 indexed claimHash);
+
+    /**
+     * @notice Emitted when the nonce of a user is bumped to invalidate outstanding vouchers.
+     * @param user The address of the user.
+     * @param newNonce The new nonce of the user.
+     */
+    event NonceInvalidated(address indexed user, uint256 newNonce);
+
+    /**
+     * @notice Emitted when funds are withdrawn from the contract.
+     * @param token The address of the token, or NATIVE_TOKEN for native currency.
+     * @param to The address of the recipient.
+     * @param amount The amount withdrawn.
+     */
+    event Withdrawn(address indexed token, address indexed to, uint256 amount);
+
+    /**
+     * @notice Emitted when a campaign is created.
+     * @param campaignId The ID of the campaign.
+     * @param token The address of the reward token.
+     * @param budget The total amount that can be claimed in the campaign.
+     * @param start The timestamp from which the campaign can be claimed.
+     * @param end The timestamp after which the campaign can no longer be claimed.
+     */
+    event CampaignCreated(uint256 indexed campaignId, address indexed token, uint256 budget, uint64 start, uint64 end);
+
+    /**
+     * @notice Emitted when a campaign is paused or unpaused.
+     * @param campaignId The ID of the campaign.
+     * @param active False if the campaign was paused, true if it was unpaused.
+     */
+    event CampaignActiveChanged(uint256 indexed campaignId, bool active);
+
+    /**
+     * @notice Emitted when a campaign reward is claimed, along with {RewardPaid}.
+     * @param campaignId The ID of the campaign.
+     * @param user The address of the user.
+     * @param amount The amount of the reward.
+     */
+    event CampaignRewardPaid(uint256 indexed campaignId, address indexed user, uint256 amount);
+
+    /**
+     * @notice Emitted when a sensitive operation is scheduled.
+     * @param operationId The ID of the operation, the hash of its call data.
+     * @param data The call to this contract the operation executes.
+     * @param readyAt The timestamp from which the operation can be executed.
+     */
+    event OperationScheduled(bytes32 indexed operationId, bytes data, uint256 readyAt);
+
+    /**
+     * @notice Emitted when a scheduled operation is executed.
+     * @param operationId The ID of the operation.
+     */
+    event OperationExecuted(bytes32 indexed operationId);
+
+    /**
+     * @notice Emitted when a scheduled operation is cancelled.
+     * @param operationId The ID of the operation.
+     */
+    event OperationCancelled(bytes32 indexed operationId);
+
+    /**
+     * @notice Emitted when the delay of sensitive operations is changed.
+     * @param delay The new delay, in seconds.
+     */
+    event OperationDelayChanged(uint256 delay);
+
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
@@ -86,132 +599,1544 @@ contract FundsDistributor is Initializable, PausableUpgradeable, AccessControlUp
      * @param pauser The address with the PAUSER_ROLE.
      * @param upgrader The address with the UPGRADER_ROLE.
      * @param admin The address with the ADMIN_ROLE.
-     * @param token_ The address of the ERC20 token.
+     * @param token_ The address of the default ERC20 token, which is also allowed for claims.
+     * @param signer The address with the SIGNER_ROLE.
      */
-    function initialize(address pauser, address upgrader, address admin, address token_) initializer public {
+    function initialize(address pauser, address upgrader, address admin, address token_, address signer) initializer public {
         __Pausable_init();
         __AccessControl_init();
+        __EIP712_init("FundsDistributor", "1");
+        __ReentrancyGuard_init();
         __UUPSUpgradeable_init();
 
         _grantRole(PAUSER_ROLE, pauser);
         _grantRole(UPGRADER_ROLE, upgrader);
         _grantRole(ADMIN_ROLE, admin);
+        _grantRole(SIGNER_ROLE, signer);
+        emit SignerAdded(signer);
 
         _token = token_;
         emit TokenConfigured(token_);
+        _allowToken(token_);
+
+        _enableOperations();
     }
 
     /**
-     * @notice Pauses the contract, preventing certain functions from being executed.
-     * @dev Can only be called by an address with the PAUSER_ROLE.
+     * @notice Initializes the EIP-712 domain of a proxy deployed with the initial release
+     * and allows its configured token for claims.
+     * @dev Only sets values derived from the current state, so it is harmless if called on a fresh deployment.
      */
-    function pause() external onlyRole(PAUSER_ROLE)  {
-        _pause();
+    function initializeV2() reinitializer(2) public {
+        __EIP712_init("FundsDistributor", "1");
+        __ReentrancyGuard_init();
+        if (_token != address(0)) {
+            _allowToken(_token);
+        }
     }
 
     /**
-     * @notice Unpauses the contract, allowing functions to be executed.
-     * @dev Can only be called by an address with the PAUSER_ROLE.
+     * @notice Hands the sensitive operations of a proxy deployed before they were timelocked to the contract itself,
+     * with the default delay.
+     * @dev Does nothing if the contract already holds the DEFAULT_ADMIN_ROLE, as it does on a fresh deployment.
      */
-    function unpause() external onlyRole(PAUSER_ROLE)  {
-        _unpause();
+    function initializeV3() reinitializer(3) public {
+        if (!hasRole(DEFAULT_ADMIN_ROLE, address(this))) {
+            _enableOperations();
+        }
     }
 
     /**
-     * @notice Configures the token address.
-     * @param token_ The new token address.
-     * @dev Can only be called by an address with the ADMIN_ROLE.
-     * Reverts if the new token address is the same as the current one or if it is a zero address.
+     * @notice Accepts native currency sent without calldata as funds for distribution.
      */
-    function configureTokenAddress(address token_) external onlyRole(ADMIN_ROLE) {
-        if (token_ == _token) {
-            revert AlreadyConfigured();
-        }
-        if (token_ == address(0)) {
-            revert ZeroAddress();
-        }
-        _token = token_;
-        emit TokenConfigured(token_);
+    receive() external payable {
+        emit Funded(msg.sender, NATIVE_TOKEN, msg.value);
     }
 
     /**
-     * @notice Claims a reward for the sender.
-     * @param amount The amount of the reward.
-     * @param nonce The nonce associated with the reward.
-     * @param signature The signature to verify the reward claim.
-     * @dev Reverts if the nonce is invalid, the signature is already used, or the signature is invalid.
+     * @notice Deposits native currency for distribution.
      */
-    function claimReward(uint256 amount, uint256 nonce, bytes memory signature) external whenNotPaused {
-        if (nonce != _userNonces[msg.sender]) {
-            revert InvalidNonce();
-        }
-        bytes32 signatureHash = keccak256(signature);
-        if (_usedSignatures[signatureHash]) {
-            revert SignatureAlreadyUsed();
-        }
+    function deposit() external payable {
+        emit Funded(msg.sender, NATIVE_TOKEN, msg.value);
+    }
 
-        if (!verifySignature(msg.sender, amount, nonce, block.chainid, signature)) {
-            revert InvalidSignature();
+    /**
+     * @notice Funds the contract with tokens or native currency for distribution.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @param amount The amount to fund.
+     * @dev ERC20 tokens are pulled from the sender, who must have approved the amount.
+     * Reverts if the native currency sent does not match the amount, or if native currency is sent along with tokens.
+     */
+    function fund(address token_, uint256 amount) external payable {
+        if (token_ == NATIVE_TOKEN) {
+            if (msg.value != amount) {
+                revert InvalidAmount();
+            }
+        } else {
+            if (msg.value != 0) {
+                revert InvalidAmount();
+            }
+            IERC20(token_).safeTransferFrom(msg.sender, address(this), amount);
         }
-
-        _usedSignatures[signatureHash] = true;
-        _userNonces[msg.sender] += 1;
-
-        IERC20(_token).safeTransfer(msg.sender, amount);
-        emit RewardPaid(msg.sender, amount);
+        emit Funded(msg.sender, token_, amount);
     }
 
     /**
-     * @notice Returns the nonce for a given user.
-     * @param user The address of the user.
-     * @return The nonce for the user.
+     * @notice Withdraws funds from the contract.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @param to The address of the recipient.
+     * @param amount The amount to withdraw.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if the recipient is a zero address or the amount exceeds the funds not reserved for vesting schedules.
      */
-    function getNonce(address user) external view returns (uint256) {
-        return _userNonces[user];
+    function withdraw(address token_, address to, uint256 amount) external onlyRole(DEFAULT_ADMIN_ROLE) nonReentrant {
+        _checkAvailable(token_, amount);
+        _withdraw(token_, to, amount);
     }
 
     /**
-     * @notice Checks if a signature has been used.
-     * @param signature The signature to check.
-     * @return True if the signature has been used, false otherwise.
+     * @notice Withdraws all funds of a token that are not reserved for vesting schedules.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @param to The address of the recipient.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if the recipient is a zero address. Meant for tokens stranded after a campaign or a token switch.
      */
-    function getSignatureUsedStatus(bytes memory signature) external view returns (bool) {
-        return _usedSignatures[keccak256(signature)];
+    function sweep(address token_, address to) external onlyRole(DEFAULT_ADMIN_ROLE) nonReentrant {
+        _withdraw(token_, to, availableBalance(token_));
     }
 
     /**
-     * @notice Returns the token address.
-     * @return The token address.
+     * @notice Pauses the contract, preventing certain functions from being executed.
+     * @dev Can only be called by an address with the PAUSER_ROLE.
      */
-    function token() external view returns (address) {
-        return _token;
+    function pause() external onlyRole(PAUSER_ROLE)  {
+        _pause();
     }
 
     /**
-     * @notice Verifies the signature for a reward claim.
-     * @param user The address of the user.
+     * @notice Unpauses the contract, allowing functions to be executed.
+     * @dev Can only be called by an address with the PAUSER_ROLE.
+     */
+    function unpause() external onlyRole(PAUSER_ROLE)  {
+        _unpause();
+    }
+
+    /**
+     * @notice Schedules a sensitive operation, a call to this contract executed after the operation delay.
+     * @param data The call data of the operation, such as a call to {configureTokenAddress}, {addSigner},
+     * {withdraw}, {configureLimits}, {grantRole}, {revokeRole}, {setOperationDelay} or {upgradeToAndCall}.
+     * @return operationId The ID of the operation.
+     * @dev Upgrades can only be scheduled by an address with the UPGRADER_ROLE,
+     * other operations by an address with the ADMIN_ROLE.
+     * Reverts if the same operation is already pending.
+     */
+    function scheduleOperation(bytes calldata data) external returns (bytes32 operationId) {
+        _checkRole(_operationRole(data));
+        operationId = keccak256(data);
+        if (_operations[operationId] != 0) {
+            revert OperationAlreadyScheduled();
+        }
+        uint256 readyAt = block.timestamp + _operationDelay;
+        _operations[operationId] = readyAt;
+        emit OperationScheduled(operationId, data, readyAt);
+    }
+
+    /**
+     * @notice Executes a scheduled operation once its delay has passed.
+     * @param data The call data the operation was scheduled with.
+     * @dev Can only be called by an address with the role required to schedule the operation.
+     * Reverts if the operation is not pending or not ready yet, and with the error of the call if it fails.
+     */
+    function executeOperation(bytes calldata data) external {
+        _checkRole(_operationRole(data));
+        bytes32 operationId = keccak256(data);
+        uint256 readyAt = _operations[operationId];
+        if (readyAt == 0) {
+            revert UnknownOperation();
+        }
+        if (block.timestamp < readyAt) {
+            revert OperationNotReady(readyAt);
+        }
+        delete _operations[operationId];
+        Address.functionCall(address(this), data);
+        emit OperationExecuted(operationId);
+    }
+
+    /**
+     * @notice Cancels a scheduled operation.
+     * @param operationId The ID of the operation.
+     * @dev Can only be called by an address with the ADMIN_ROLE, so that it can stop an upgrade scheduled
+     * with a compromised upgrader key. Reverts if the operation is not pending.
+     */
+    function cancelOperation(bytes32 operationId) external onlyRole(ADMIN_ROLE) {
+        if (_operations[operationId] == 0) {
+            revert UnknownOperation();
+        }
+        delete _operations[operationId];
+        emit OperationCancelled(operationId);
+    }
+
+    /**
+     * @notice Sets the delay between scheduling a sensitive operation and executing it.
+     * @param delay The new delay, in seconds. Operations already scheduled keep their delay.
+     * @dev Can only be called by the contract itself, through an operation.
+     */
+    function setOperationDelay(uint256 delay) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _operationDelay = delay;
+        emit OperationDelayChanged(delay);
+    }
+
+    /**
+     * @notice Configures the default token address and allows it for claims.
+     * @param token_ The new token address.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if the new token address is the same as the current one or if it is a zero address.
+     * Tokens configured previously stay allowed, so vouchers already issued in them keep their payout token.
+     */
+    function configureTokenAddress(address token_) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (token_ == _token) {
+            revert AlreadyConfigured();
+        }
+        if (token_ == address(0)) {
+            revert ZeroAddress();
+        }
+        _token = token_;
+        emit TokenConfigured(token_);
+        _allowToken(token_);
+    }
+
+    /**
+     * @notice Adds a token to the allowlist of reward tokens.
+     * @param token_ The address of the token.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if the token is a zero address or is already allowed.
+     */
+    function allowToken(address token_) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (token_ == address(0)) {
+            revert ZeroAddress();
+        }
+        if (!_allowToken(token_)) {
+            revert AlreadyConfigured();
+        }
+    }
+
+    /**
+     * @notice Removes a token from the allowlist of reward tokens.
+     * @param token_ The address of the token.
+     * @dev Can only be called by an address with the ADMIN_ROLE.
+     * Reverts if the token is not allowed. Outstanding vouchers in the token can no longer be claimed.
+     */
+    function disallowToken(address token_) external onlyRole(ADMIN_ROLE) {
+        if (!_allowedTokens[token_]) {
+            revert TokenNotAllowed();
+        }
+        _allowedTokens[token_] = false;
+        emit TokenDisallowed(token_);
+    }
+
+    /**
+     * @notice Publishes a Merkle epoch.
+     * @param merkleRoot The root of the Merkle tree of `(index, user, amount)` leaves.
+     * @param token_ The address of the reward token, or NATIVE_TOKEN for native currency.
+     * @param budget The total amount that can be claimed in the epoch.
+     * @return epochId The ID of the new epoch.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if the root is zero or the token is not allowed.
+     */
+    function publishEpoch(
+        bytes32 merkleRoot,
+        address token_,
+        uint256 budget
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) returns (uint256 epochId) {
+        if (merkleRoot == bytes32(0)) {
+            revert InvalidMerkleRoot();
+        }
+        if (!_allowedTokens[token_]) {
+            revert TokenNotAllowed();
+        }
+        epochId = _epochCount++;
+        _epochs[epochId] = Epoch(merkleRoot, token_, budget, 0);
+        emit EpochPublished(epochId, merkleRoot, token_, budget);
+    }
+
+    /**
+     * @notice Creates a campaign, active from its start.
+     * @param token_ The address of the reward token, or NATIVE_TOKEN for native currency.
+     * @param budget The total amount that can be claimed in the campaign.
+     * @param start The timestamp from which the campaign can be claimed.
+     * @param end The timestamp after which the campaign can no longer be claimed.
+     * @return campaignId The ID of the new campaign.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if the campaign ends before it starts or the token is not allowed.
+     */
+    function createCampaign(
+        address token_,
+        uint256 budget,
+        uint64 start,
+        uint64 end
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) returns (uint256 campaignId) {
+        if (end < start) {
+            revert InvalidCampaign();
+        }
+        if (!_allowedTokens[token_]) {
+            revert TokenNotAllowed();
+        }
+        campaignId = _campaignCount++;
+        _campaigns[campaignId] = Campaign(token_, start, end, true, budget, 0);
+        emit CampaignCreated(campaignId, token_, budget, start, end);
+    }
+
+    /**
+     * @notice Pauses or unpauses the claims of a single campaign.
+     * @param campaignId The ID of the campaign.
+     * @param active False to pause the campaign, true to unpause it.
+     * @dev Pausing can be done by an address with the ADMIN_ROLE right away, as a defensive action.
+     * Unpausing reopens the budget of the campaign to claims, so it can only be done by the contract itself,
+     * through an operation. Reverts if the campaign does not exist.
+     */
+    function setCampaignActive(uint256 campaignId, bool active) external {
+        _checkRole(active ? DEFAULT_ADMIN_ROLE : ADMIN_ROLE);
+        if (campaignId >= _campaignCount) {
+            revert UnknownCampaign();
+        }
+        _campaigns[campaignId].active = active;
+        emit CampaignActiveChanged(campaignId, active);
+    }
+
+    /**
+     * @notice Configures the vesting policy of a token.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @param threshold The amount above which vouchers are vested, zero to disable vesting.
+     * @param cliff The number of seconds before anything vests.
+     * @param duration The number of seconds over which the amount vests.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if vesting is enabled with a zero duration or a cliff longer than the duration.
+     * Schedules already opened keep the terms they were created with. Only claims through {claimReward},
+     * {claimRewardFor} and {claimRewards} vest: cumulative, Merkle, campaign and split claims above the threshold
+     * are reverted.
+     */
+    function configureVesting(
+        address token_,
+        uint256 threshold,
+        uint64 cliff,
+        uint64 duration
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (threshold != 0 && (duration == 0 || cliff > duration)) {
+            revert InvalidVestingPolicy();
+        }
+        _vestingPolicies[token_] = VestingPolicy(threshold, cliff, duration);
+        emit VestingPolicyConfigured(token_, threshold, cliff, duration);
+    }
+
+    /**
+     * @notice Configures the rate limits on signed claims of a token.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @param maxPerClaim The maximum amount of a single claim, zero for no limit.
+     * @param maxPerUser The maximum amount claimed by a user within a window, zero for no limit.
+     * @param maxTotal The maximum amount claimed by all users within a window, zero for no limit.
+     * @param window The length of a window in seconds.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if a per-window limit is set with a zero window.
+     * The amount claimed against a per-window limit is released linearly over the window rather than reset at
+     * fixed boundaries, so the limit can be claimed at once and then only at the rate of the limit per window.
+     * Changing the limits keeps the amount claimed so far.
+     */
+    function configureLimits(
+        address token_,
+        uint256 maxPerClaim,
+        uint256 maxPerUser,
+        uint256 maxTotal,
+        uint64 window
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if ((maxPerUser != 0 || maxTotal != 0) && window == 0) {
+            revert InvalidRateLimits();
+        }
+        _rateLimits[token_] = RateLimits(maxPerClaim, maxPerUser, maxTotal, window);
+        emit LimitsUpdated(token_, maxPerClaim, maxPerUser, maxTotal, window);
+    }
+
+    /**
+     * @notice Revokes vouchers so that they can no longer be claimed.
+     * @param claimHashes The EIP-712 hashes of the claims, as returned by {hashClaim} or {hashCumulativeClaim}.
+     * @dev Can only be called by an address with the ADMIN_ROLE.
+     * Hashes that are already revoked are skipped.
+     */
+    function revokeVouchers(bytes32[] calldata claimHashes) external onlyRole(ADMIN_ROLE) {
+        for (uint256 i = 0; i < claimHashes.length; i++) {
+            if (!_revokedClaims[claimHashes[i]]) {
+                _revokedClaims[claimHashes[i]] = true;
+                emit VoucherRevoked(claimHashes[i]);
+            }
+        }
+    }
+
+    /**
+     * @notice Bumps the nonce of a user, invalidating every outstanding voucher with a lower nonce.
+     * @param user The address of the user.
+     * @param newNonce The new nonce of the user.
+     * @dev Can only be called by an address with the ADMIN_ROLE.
+     * Reverts if the new nonce is not greater than the current one.
+     */
+    function invalidateNonce(address user, uint256 newNonce) external onlyRole(ADMIN_ROLE) {
+        if (newNonce <= _userNonces[user]) {
+            revert InvalidNonce();
+        }
+        _userNonces[user] = newNonce;
+        emit NonceInvalidated(user, newNonce);
+    }
+
+    /**
+     * @notice Authorizes an address to sign reward claims.
+     * @param signer The address of the signer.
+     * @dev Can only be called by the contract itself, through an operation.
+     * Reverts if the signer is a zero address or is already authorized.
+     */
+    function addSigner(address signer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (signer == address(0)) {
+            revert ZeroAddress();
+        }
+        if (!_grantRole(SIGNER_ROLE, signer)) {
+            revert AlreadyConfigured();
+        }
+        emit SignerAdded(signer);
+    }
+
+    /**
+     * @notice Revokes the authorization of an address to sign reward claims.
+     * @param signer The address of the signer.
+     * @dev Can only be called by an address with the ADMIN_ROLE.
+     * Reverts if the address is not an authorized signer.
+     */
+    function removeSigner(address signer) external onlyRole(ADMIN_ROLE) {
+        if (!_revokeRole(SIGNER_ROLE, signer)) {
+            revert UnknownSigner();
+        }
+        emit SignerRemoved(signer);
+    }
+
+    /**
+     * @notice Claims a reward for the sender.
+     * @param token_ The address of the reward token, or NATIVE_TOKEN for native currency.
+     * @param amount The amount of the reward.
+     * @param nonce The nonce associated with the reward.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @param signature The signature to verify the reward claim.
+     * @dev Reverts if the voucher is outside its validity window, the token is not allowed, the claim is already used,
+     * the nonce is invalid, the voucher is revoked, the signature is invalid,
+     * the amount exceeds the rate limits of the token or the funds not reserved for vesting schedules,
+     * or the sender rejects a native currency payout.
+     * If the amount is above the vesting threshold of the token, a vesting schedule is opened instead of paying out.
+     */
+    function claimReward(
+        address token_,
+        uint256 amount,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil,
+        bytes memory signature
+    ) external whenNotPaused nonReentrant {
+        _useVoucher(msg.sender, token_, amount, nonce, validAfter, validUntil, signature);
+
+        if (!_startVesting(msg.sender, token_, amount, nonce)) {
+            _payReward(msg.sender, token_, amount);
+        }
+    }
+
+    /**
+     * @notice Claims a reward on behalf of a user, so that a relayer can pay the gas.
+     * @param user The address of the user the voucher was issued to, who receives the reward.
+     * @param token_ The address of the reward token, or NATIVE_TOKEN for native currency.
+     * @param amount The amount of the reward.
+     * @param nonce The nonce associated with the reward.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @param signature The signature to verify the reward claim.
+     * @dev Reverts in the same cases as {claimReward}. The signature binds the user and the amount,
+     * so the caller can neither redirect the reward nor change its amount.
+     */
+    function claimRewardFor(
+        address user,
+        address token_,
+        uint256 amount,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil,
+        bytes memory signature
+    ) external whenNotPaused nonReentrant {
+        _useVoucher(user, token_, amount, nonce, validAfter, validUntil, signature);
+
+        if (!_startVesting(user, token_, amount, nonce)) {
+            _payReward(user, token_, amount);
+        }
+    }
+
+    /**
+     * @notice Claims several rewards for the sender in one transaction.
+     * @param claims The signed claims, ordered by consecutive nonces starting at the current nonce of the sender.
+     * @dev Reverts if the batch is empty or if any claim would be reverted by {claimReward}.
+     * The amounts are summed per token and paid out in a single transfer for each token.
+     * Claims above the vesting threshold of their token open vesting schedules and are left out of the transfers.
+     */
+    function claimRewards(Claim[] calldata claims) external whenNotPaused nonReentrant {
+        if (claims.length == 0) {
+            revert EmptyBatch();
+        }
+
+        address[] memory tokens = new address[](claims.length);
+        uint256[] memory amounts = new uint256[](claims.length);
+        uint256 tokenCount;
+
+        for (uint256 i = 0; i < claims.length; i++) {
+            Claim calldata claim = claims[i];
+            _useVoucher(
+                msg.sender,
+                claim.token,
+                claim.amount,
+                claim.nonce,
+                claim.validAfter,
+                claim.validUntil,
+                claim.signature
+            );
+            if (_startVesting(msg.sender, claim.token, claim.amount, claim.nonce)) {
+                continue;
+            }
+            emit RewardPaid(msg.sender, claim.token, claim.amount);
+
+            uint256 j = 0;
+            while (j < tokenCount && tokens[j] != claim.token) {
+                j++;
+            }
+            if (j == tokenCount) {
+                tokens[tokenCount++] = claim.token;
+            }
+            amounts[j] += claim.amount;
+        }
+
+        for (uint256 i = 0; i < tokenCount; i++) {
+            _checkAvailable(tokens[i], amounts[i]);
+            _transferOut(tokens[i], msg.sender, amounts[i]);
+            _distributed[tokens[i]] += amounts[i];
+        }
+    }
+
+    /**
+     * @notice Releases the vested part of a vesting schedule of the sender.
+     * @param claimId The nonce of the voucher that opened the schedule.
+     * @dev Reverts if nothing is releasable, including when the schedule does not exist.
+     */
+    function release(uint256 claimId) external whenNotPaused nonReentrant {
+        VestingSchedule storage schedule = _vestingSchedules[msg.sender][claimId];
+        uint256 amount = _vestedAmount(schedule) - schedule.released;
+        if (amount == 0) {
+            revert NothingToClaim();
+        }
+
+        schedule.released += amount;
+        // Released from the reserve first, so that the payout does not count as dipping into it.
+        _vestingReserves[schedule.token] -= amount;
+
+        _payReward(msg.sender, schedule.token, amount);
+        emit VestingReleased(msg.sender, claimId, amount);
+    }
+
+    /**
+     * @notice Claims the unclaimed part of the cumulative entitlement of the sender.
+     * @param token_ The address of the reward token, or NATIVE_TOKEN for native currency.
+     * @param cumulativeAmount The lifetime entitlement of the sender in the token.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @param signature The signature to verify the cumulative reward claim.
+     * @dev Pays `cumulativeAmount` minus the amount claimed to date, so older vouchers that were never
+     * claimed are superseded rather than lost. Reverts if the voucher is outside its validity window,
+     * the token is not allowed, the voucher is revoked, the signature is invalid, there is nothing left to claim,
+     * or the unclaimed part exceeds the rate limits of the token or its vesting threshold.
+     */
+    function claimCumulativeReward(
+        address token_,
+        uint256 cumulativeAmount,
+        uint256 validAfter,
+        uint256 validUntil,
+        bytes memory signature
+    ) external whenNotPaused nonReentrant {
+        _checkVoucher(token_, validAfter, validUntil);
+        bytes32 digest = hashCumulativeClaim(msg.sender, token_, cumulativeAmount, validAfter, validUntil);
+        if (_revokedClaims[digest]) {
+            revert ClaimRevoked();
+        }
+        if (!_isSignedBySigner(digest, signature)) {
+            revert InvalidSignature();
+        }
+        uint256 claimed = _cumulativeClaimed[msg.sender][token_];
+        if (cumulativeAmount <= claimed) {
+            revert NothingToClaim();
+        }
+
+        uint256 amount = cumulativeAmount - claimed;
+        _checkUnvested(token_, amount);
+        _consumeLimits(msg.sender, token_, amount);
+        _cumulativeClaimed[msg.sender][token_] = cumulativeAmount;
+
+        _payReward(msg.sender, token_, amount);
+    }
+
+    /**
+     * @notice Claims a reward from a campaign with a voucher signed by an authorized signer.
+     * @param user The address of the user, who receives the reward.
+     * @param campaignId The ID of the campaign, which determines the reward token.
+     * @param amount The amount of the reward.
+     * @param nonce The nonce associated with the reward, shared with {claimReward}.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @param signature The signature to verify the reward claim.
+     * @dev Anyone can submit the claim, the reward always goes to the user of the voucher.
+     * Campaign rewards are paid out in full, so they cannot be above the vesting threshold of the token.
+     * Reverts if the campaign does not exist, is not active or would exceed its budget,
+     * if the amount is above the vesting threshold, and for the same reasons as {claimReward}.
+     */
+    function claimCampaignReward(
+        address user,
+        uint256 campaignId,
+        uint256 amount,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil,
+        bytes memory signature
+    ) external whenNotPaused nonReentrant {
+        Campaign storage campaign = _campaigns[campaignId];
+        if (campaignId >= _campaignCount) {
+            revert UnknownCampaign();
+        }
+        if (!campaign.active || block.timestamp < campaign.start || block.timestamp > campaign.end) {
+            revert CampaignNotActive();
+        }
+        if (campaign.spent + amount > campaign.budget) {
+            revert CampaignBudgetExceeded();
+        }
+        address token_ = campaign.token;
+        _checkVoucher(token_, validAfter, validUntil);
+        _checkUnvested(token_, amount);
+        _useSignedClaim(
+            user,
+            token_,
+            amount,
+            nonce,
+            hashCampaignClaim(user, campaignId, amount, nonce, validAfter, validUntil),
+            signature
+        );
+        campaign.spent += amount;
+
+        _payReward(user, token_, amount);
+        emit CampaignRewardPaid(campaignId, user, amount);
+    }
+
+    /**
+     * @notice Claims a reward split between several recipients with a voucher signed by an authorized signer.
+     * @param user The address of the user the voucher was issued to, whose nonce it consumes.
+     * @param token_ The address of the reward token, or NATIVE_TOKEN for native currency.
+     * @param payouts The recipients and the amount paid to each of them.
+     * @param nonce The nonce associated with the reward, shared with {claimReward}.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @param signature The signature to verify the reward claim.
+     * @dev Anyone can submit the claim. Each recipient is paid with its own {RewardPaid} event, and the rate limits
+     * of the token apply to the total. Split rewards are paid out in full, so their total cannot be above the
+     * vesting threshold of the token.
+     * Reverts if a recipient is the zero address or is paid nothing, if the split is invalid,
+     * if the total is above the vesting threshold, and for the same reasons as {claimReward}.
+     */
+    function claimSplitReward(
+        address user,
+        address token_,
+        Payout[] memory payouts,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil,
+        bytes memory signature
+    ) external whenNotPaused nonReentrant {
+        uint256 total = _checkSplit(payouts);
+        _checkVoucher(token_, validAfter, validUntil);
+        _checkUnvested(token_, total);
+        _useSignedClaim(
+            user,
+            token_,
+            total,
+            nonce,
+            hashSplitClaim(user, token_, payouts, nonce, validAfter, validUntil),
+            signature
+        );
+
+        for (uint256 i = 0; i < payouts.length; i++) {
+            _payReward(payouts[i].recipient, token_, payouts[i].amount);
+        }
+    }
+
+    /**
+     * @notice Claims the reward of a user from a Merkle epoch.
+     * @param epochId The ID of the epoch.
+     * @param index The index of the leaf.
+     * @param user The address of the user, who receives the reward.
+     * @param amount The amount of the reward.
+     * @param proof The Merkle proof of the `(index, user, amount)` leaf.
+     * @dev Anyone can submit the claim, the reward always goes to the user of the leaf.
+     * Reverts if the epoch is unknown, the token of the epoch is no longer allowed, the leaf is already claimed,
+     * the proof is invalid, the amount is above the vesting threshold of the token, or the claim would exceed
+     * the budget of the epoch or the funds not reserved for vesting schedules.
+     */
+    function claimEpochReward(
+        uint256 epochId,
+        uint256 index,
+        address user,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external whenNotPaused nonReentrant {
+        Epoch storage epoch = _epochs[epochId];
+        if (epoch.merkleRoot == bytes32(0)) {
+            revert UnknownEpoch();
+        }
+        if (!_allowedTokens[epoch.token]) {
+            revert TokenNotAllowed();
+        }
+        if (isEpochRewardClaimed(epochId, index)) {
+            revert EpochRewardAlreadyClaimed();
+        }
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(index, user, amount))));
+        if (!MerkleProof.verifyCalldata(proof, epoch.merkleRoot, leaf)) {
+            revert InvalidMerkleProof();
+        }
+        if (epoch.claimed + amount > epoch.budget) {
+            revert EpochBudgetExceeded();
+        }
+        _checkUnvested(epoch.token, amount);
+
+        _claimedEpochLeaves[epochId][index / 256] |= 1 << (index % 256);
+        epoch.claimed += amount;
+
+        _payReward(user, epoch.token, amount);
+        emit EpochRewardClaimed(epochId, index, user);
+    }
+
+    /**
+     * @notice Returns the nonce for a given user.
+     * @param user The address of the user.
+     * @return The nonce for the user.
+     */
+    function getNonce(address user) external view returns (uint256) {
+        return _userNonces[user];
+    }
+
+    /**
+     * @notice Returns the amount a user has claimed to date with cumulative vouchers.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @return The claimed amount.
+     */
+    function getCumulativeClaimed(address user, address token_) external view returns (uint256) {
+        return _cumulativeClaimed[user][token_];
+    }
+
+    /**
+     * @notice Returns the amount a cumulative voucher would pay out.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param cumulativeAmount The lifetime entitlement attested by the voucher.
+     * @return The claimable amount, zero if the entitlement has already been claimed.
+     */
+    function getCumulativeClaimable(address user, address token_, uint256 cumulativeAmount) external view returns (uint256) {
+        uint256 claimed = _cumulativeClaimed[user][token_];
+        return cumulativeAmount > claimed ? cumulativeAmount - claimed : 0;
+    }
+
+    /**
+     * @notice Returns the total amount of a token paid out as rewards.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @return The distributed amount, including released vesting funds.
+     */
+    function totalDistributed(address token_) external view returns (uint256) {
+        return _distributed[token_];
+    }
+
+    /**
+     * @notice Returns the amount of a token held for vesting schedules that has not been released yet.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @return The reserved amount.
+     */
+    function vestingReserve(address token_) external view returns (uint256) {
+        return _vestingReserves[token_];
+    }
+
+    /**
+     * @notice Returns the balance of a token that is not reserved for vesting schedules.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @return The balance available for new claims and withdrawals, zero if the reserve is underfunded.
+     */
+    function availableBalance(address token_) public view returns (uint256) {
+        uint256 balance = token_ == NATIVE_TOKEN ? address(this).balance : IERC20(token_).balanceOf(address(this));
+        uint256 reserve = _vestingReserves[token_];
+        return balance > reserve ? balance - reserve : 0;
+    }
+
+    /**
+     * @notice Checks if a voucher has been revoked.
+     * @param claimHash The EIP-712 hash of the claim.
+     * @return True if the voucher has been revoked, false otherwise.
+     */
+    function isClaimRevoked(bytes32 claimHash) external view returns (bool) {
+        return _revokedClaims[claimHash];
+    }
+
+    /**
+     * @notice Returns the rate limits of a token.
+     * @param token_ The address of the token.
+     * @return The rate limits, with zero meaning unlimited.
+     */
+    function getRateLimits(address token_) external view returns (RateLimits memory) {
+        return _rateLimits[token_];
+    }
+
+    /**
+     * @notice Returns the amount a user can still claim in a token under the rate limits right now.
+     * @param user The address of the user.
+     * @param token_ The address of the token.
+     * @return The remaining capacity of the user, capped by the remaining global capacity,
+     * or the maximum uint256 value if the token is not limited.
+     */
+    function getRemainingUserCapacity(address user, address token_) external view returns (uint256) {
+        RateLimits storage limits = _rateLimits[token_];
+        uint256 userCapacity = _remainingCapacity(_userUsage[token_][user], limits.maxPerUser, limits.window);
+        uint256 globalCapacity = _remainingCapacity(_globalUsage[token_], limits.maxTotal, limits.window);
+        return userCapacity < globalCapacity ? userCapacity : globalCapacity;
+    }
+
+    /**
+     * @notice Returns the amount all users can still claim in a token under the rate limits right now.
+     * @param token_ The address of the token.
+     * @return The remaining capacity, or the maximum uint256 value if the total is not limited.
+     */
+    function getRemainingGlobalCapacity(address token_) external view returns (uint256) {
+        RateLimits storage limits = _rateLimits[token_];
+        return _remainingCapacity(_globalUsage[token_], limits.maxTotal, limits.window);
+    }
+
+    /**
+     * @notice Returns the vesting policy of a token.
+     * @param token_ The address of the token.
+     * @return The vesting policy, with a zero threshold if vesting is disabled.
+     */
+    function getVestingPolicy(address token_) external view returns (VestingPolicy memory) {
+        return _vestingPolicies[token_];
+    }
+
+    /**
+     * @notice Returns a vesting schedule.
+     * @param user The address of the user.
+     * @param claimId The nonce of the voucher that opened the schedule.
+     * @return The vesting schedule, with a zero total if it does not exist.
+     */
+    function getVestingSchedule(address user, uint256 claimId) external view returns (VestingSchedule memory) {
+        return _vestingSchedules[user][claimId];
+    }
+
+    /**
+     * @notice Returns the amount of a vesting schedule that has vested to date, including released funds.
+     * @param user The address of the user.
+     * @param claimId The nonce of the voucher that opened the schedule.
+     * @return The vested amount.
+     */
+    function vestedAmount(address user, uint256 claimId) external view returns (uint256) {
+        return _vestedAmount(_vestingSchedules[user][claimId]);
+    }
+
+    /**
+     * @notice Returns the amount of a vesting schedule that can be released now.
+     * @param user The address of the user.
+     * @param claimId The nonce of the voucher that opened the schedule.
+     * @return The releasable amount.
+     */
+    function releasableAmount(address user, uint256 claimId) external view returns (uint256) {
+        VestingSchedule storage schedule = _vestingSchedules[user][claimId];
+        return _vestedAmount(schedule) - schedule.released;
+    }
+
+    /**
+     * @notice Checks if a claim has been used.
+     * @param digest The EIP-712 hash of the claim, as returned by {hashClaim}.
+     * @return True if the claim has been used, false otherwise.
+     */
+    function isClaimUsed(bytes32 digest) external view returns (bool) {
+        return _usedClaims[digest];
+    }
+
+    /**
+     * @notice Checks if a signature has been used.
+     * @param signature The signature to check.
+     * @return True if the signature has been used, false otherwise.
+     * @dev Only covers claims made before replay protection was keyed on the claim digest, use {isClaimUsed} instead.
+     */
+    function getSignatureUsedStatus(bytes memory signature) external view returns (bool) {
+        return _usedSignatures[keccak256(signature)];
+    }
+
+    /**
+     * @notice Returns the default token address.
+     * @return The token address.
+     */
+    function token() external view returns (address) {
+        return _token;
+    }
+
+    /**
+     * @notice Checks if a token is allowed for reward claims.
+     * @param token_ The address of the token.
+     * @return True if the token is on the allowlist, false otherwise.
+     */
+    function isTokenAllowed(address token_) external view returns (bool) {
+        return _allowedTokens[token_];
+    }
+
+    /**
+     * @notice Returns the number of published Merkle epochs.
+     * @return The number of epochs, which is also the ID of the next one.
+     */
+    function epochCount() external view returns (uint256) {
+        return _epochCount;
+    }
+
+    /**
+     * @notice Returns the delay between scheduling a sensitive operation and executing it.
+     * @return The delay, in seconds.
+     */
+    function operationDelay() external view returns (uint256) {
+        return _operationDelay;
+    }
+
+    /**
+     * @notice Returns when a scheduled operation can be executed.
+     * @param operationId The ID of the operation, the hash of its call data.
+     * @return The timestamp from which the operation can be executed, zero if it is not pending.
+     */
+    function getOperationReadyAt(bytes32 operationId) external view returns (uint256) {
+        return _operations[operationId];
+    }
+
+    /**
+     * @notice Returns the number of created campaigns.
+     * @return The number of campaigns, which is also the ID of the next one.
+     */
+    function campaignCount() external view returns (uint256) {
+        return _campaignCount;
+    }
+
+    /**
+     * @notice Returns a campaign.
+     * @param campaignId The ID of the campaign.
+     * @return The campaign, with a zero token if it has not been created.
+     */
+    function getCampaign(uint256 campaignId) external view returns (Campaign memory) {
+        return _campaigns[campaignId];
+    }
+
+    /**
+     * @notice Returns the amount that can still be claimed from a campaign.
+     * @param campaignId The ID of the campaign.
+     * @return The budget of the campaign minus the amount claimed so far.
+     */
+    function remainingCampaignBudget(uint256 campaignId) external view returns (uint256) {
+        Campaign storage campaign = _campaigns[campaignId];
+        return campaign.budget - campaign.spent;
+    }
+
+    /**
+     * @notice Returns a Merkle epoch.
+     * @param epochId The ID of the epoch.
+     * @return The epoch, with a zero root if it has not been published.
+     */
+    function getEpoch(uint256 epochId) external view returns (Epoch memory) {
+        return _epochs[epochId];
+    }
+
+    /**
+     * @notice Checks if a leaf of a Merkle epoch has been claimed.
+     * @param epochId The ID of the epoch.
+     * @param index The index of the leaf.
+     * @return True if the leaf has been claimed, false otherwise.
+     */
+    function isEpochRewardClaimed(uint256 epochId, uint256 index) public view returns (bool) {
+        return _claimedEpochLeaves[epochId][index / 256] & (1 << (index % 256)) != 0;
+    }
+
+    /**
+     * @notice Checks if an address is authorized to sign reward claims.
+     * @param account The address to check.
+     * @return True if the address has the SIGNER_ROLE, false otherwise.
+     */
+    function isSigner(address account) external view returns (bool) {
+        return hasRole(SIGNER_ROLE, account);
+    }
+
+    /**
+     * @notice Returns the EIP-712 digest of a reward claim.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
      * @param amount The amount of the reward.
      * @param nonce The nonce associated with the reward.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @return The typed data hash to be signed by an authorized signer.
+     */
+    function hashClaim(
+        address user,
+        address token_,
+        uint256 amount,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil
+    ) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(CLAIM_TYPEHASH, user, token_, amount, nonce, validAfter, validUntil)));
+    }
+
+    /**
+     * @notice Returns the EIP-712 digest of a cumulative reward claim.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param cumulativeAmount The lifetime entitlement of the user in the token.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @return The typed data hash to be signed by an authorized signer.
+     */
+    function hashCumulativeClaim(
+        address user,
+        address token_,
+        uint256 cumulativeAmount,
+        uint256 validAfter,
+        uint256 validUntil
+    ) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(abi.encode(CUMULATIVE_CLAIM_TYPEHASH, user, token_, cumulativeAmount, validAfter, validUntil))
+        );
+    }
+
+    /**
+     * @notice Returns the EIP-712 digest of a campaign reward claim.
+     * @param user The address of the user.
+     * @param campaignId The ID of the campaign.
+     * @param amount The amount of the reward.
+     * @param nonce The nonce associated with the reward.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @return The typed data hash to be signed by an authorized signer.
+     */
+    function hashCampaignClaim(
+        address user,
+        uint256 campaignId,
+        uint256 amount,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil
+    ) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(abi.encode(CAMPAIGN_CLAIM_TYPEHASH, user, campaignId, amount, nonce, validAfter, validUntil))
+        );
+    }
+
+    /**
+     * @notice Returns the EIP-712 digest of a split reward claim.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param payouts The recipients and the amount paid to each of them.
+     * @param nonce The nonce associated with the reward.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @return The typed data hash to be signed by an authorized signer.
+     */
+    function hashSplitClaim(
+        address user,
+        address token_,
+        Payout[] memory payouts,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil
+    ) public view returns (bytes32) {
+        bytes32[] memory payoutHashes = new bytes32[](payouts.length);
+        for (uint256 i = 0; i < payouts.length; i++) {
+            payoutHashes[i] = keccak256(abi.encode(PAYOUT_TYPEHASH, payouts[i].recipient, payouts[i].amount));
+        }
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    SPLIT_CLAIM_TYPEHASH,
+                    user,
+                    token_,
+                    keccak256(abi.encodePacked(payoutHashes)),
+                    nonce,
+                    validAfter,
+                    validUntil
+                )
+            )
+        );
+    }
+
+    /**
+     * @notice Verifies the signature for a reward claim.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param amount The amount of the reward.
+     * @param nonce The nonce associated with the reward.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
      * @param chainId The chain ID.
      * @param signature The signature to verify.
-     * @return True if the signature is valid, false otherwise.
+     * @return True if the signature was produced by an authorized signer, false otherwise.
      * @dev Reverts if the chain ID does not match the current chain ID.
+     * The signature must be made over the EIP-712 typed data returned by {hashClaim}.
      */
-    function verifySignature(address user, uint256 amount, uint256 nonce, uint256 chainId, bytes memory signature) public view returns (bool) {
+    function verifySignature(
+        address user,
+        address token_,
+        uint256 amount,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil,
+        uint256 chainId,
+        bytes memory signature
+    ) public view returns (bool) {
         if (chainId != block.chainid) {
             revert InvalidSignatureChainId();
         }
-        bytes32 messageHash = keccak256(abi.encodePacked(user, amount, nonce, chainId));
-        bytes32 ethSignedMessageHash = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", messageHash));
-        address signer = ECDSA.recover(ethSignedMessageHash, signature);
+        return _isSignedBySigner(hashClaim(user, token_, amount, nonce, validAfter, validUntil), signature);
+    }
+
+    /**
+     * @notice Reports whether a signed claim would succeed if submitted now, and why not otherwise.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param amount The amount of the reward.
+     * @param nonce The nonce associated with the reward.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @param chainId The chain ID the voucher was signed for.
+     * @param signature The signature of the voucher.
+     * @return The first check the claim fails, in the order {claimReward} performs them, or Ok.
+     * @dev The balance is only required for claims paid out directly, as vested claims are paid out on release.
+     */
+    function previewClaim(
+        address user,
+        address token_,
+        uint256 amount,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil,
+        uint256 chainId,
+        bytes memory signature
+    ) external view returns (ClaimStatus) {
+        if (chainId != block.chainid) {
+            return ClaimStatus.WrongChain;
+        }
+        if (paused()) {
+            return ClaimStatus.Paused;
+        }
+        if (block.timestamp < validAfter) {
+            return ClaimStatus.NotYetValid;
+        }
+        if (block.timestamp > validUntil) {
+            return ClaimStatus.Expired;
+        }
+        if (!_allowedTokens[token_]) {
+            return ClaimStatus.TokenNotAllowed;
+        }
+        bytes32 digest = hashClaim(user, token_, amount, nonce, validAfter, validUntil);
+        if (_usedClaims[digest] || _usedSignatures[keccak256(signature)]) {
+            return ClaimStatus.Used;
+        }
+        if (nonce != _userNonces[user]) {
+            return ClaimStatus.WrongNonce;
+        }
+        if (_revokedClaims[digest]) {
+            return ClaimStatus.Revoked;
+        }
+        if (!_isSignedBySigner(digest, signature)) {
+            return ClaimStatus.BadSigner;
+        }
+        return _previewPayout(user, token_, amount);
+    }
 
-        return signer == user;
+    /**
+     * @notice Checks that a voucher is within its validity window and pays out in an allowed token.
+     * @param token_ The address of the reward token.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     */
+    function _checkVoucher(address token_, uint256 validAfter, uint256 validUntil) internal view {
+        if (block.timestamp < validAfter) {
+            revert VoucherNotYetValid();
+        }
+        if (block.timestamp > validUntil) {
+            revert VoucherExpired();
+        }
+        if (!_allowedTokens[token_]) {
+            revert TokenNotAllowed();
+        }
+    }
+
+    /**
+     * @notice Checks the recipients of a split voucher and sums what they are paid.
+     * @param payouts The recipients and the amount paid to each of them.
+     * @return total The total amount of the reward.
+     */
+    function _checkSplit(Payout[] memory payouts) internal pure returns (uint256 total) {
+        if (payouts.length == 0 || payouts.length > MAX_SPLIT_RECIPIENTS) {
+            revert InvalidSplit();
+        }
+        for (uint256 i = 0; i < payouts.length; i++) {
+            address recipient = payouts[i].recipient;
+            if (recipient == address(0)) {
+                revert ZeroAddress();
+            }
+            if (payouts[i].amount == 0) {
+                revert InvalidAmount();
+            }
+            for (uint256 j = 0; j < i; j++) {
+                if (payouts[j].recipient == recipient) {
+                    revert InvalidSplit();
+                }
+            }
+            total += payouts[i].amount;
+        }
+    }
+
+    /**
+     * @notice Checks if a digest was signed by an authorized signer.
+     * @param digest The signed digest.
+     * @param signature The signature to verify, in the 65-byte or the compact 64-byte (EIP-2098) encoding.
+     * @return True if the recovered signer has the SIGNER_ROLE, false otherwise, including for malformed signatures.
+     */
+    function _isSignedBySigner(bytes32 digest, bytes memory signature) internal view returns (bool) {
+        address recovered;
+        ECDSA.RecoverError error;
+        if (signature.length == 64) {
+            bytes32 r;
+            bytes32 vs;
+            assembly {
+                r := mload(add(signature, 0x20))
+                vs := mload(add(signature, 0x40))
+            }
+            (recovered, error, ) = ECDSA.tryRecover(digest, r, vs);
+        } else {
+            (recovered, error, ) = ECDSA.tryRecover(digest, signature);
+        }
+        return error == ECDSA.RecoverError.NoError && hasRole(SIGNER_ROLE, recovered);
+    }
+
+    /**
+     * @notice Reports whether a signed claim that passed its voucher checks fits the rate limits and the balance.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param amount The amount of the reward.
+     * @return LimitExceeded, InsufficientBalance if the claim is paid out directly and exceeds the available balance, or Ok.
+     */
+    function _previewPayout(address user, address token_, uint256 amount) internal view returns (ClaimStatus) {
+        RateLimits storage limits = _rateLimits[token_];
+        if (
+            (limits.maxPerClaim != 0 && amount > limits.maxPerClaim) ||
+            amount > _remainingCapacity(_userUsage[token_][user], limits.maxPerUser, limits.window) ||
+            amount > _remainingCapacity(_globalUsage[token_], limits.maxTotal, limits.window)
+        ) {
+            return ClaimStatus.LimitExceeded;
+        }
+        uint256 threshold = _vestingPolicies[token_].threshold;
+        if ((threshold == 0 || amount <= threshold) && amount > availableBalance(token_)) {
+            return ClaimStatus.InsufficientBalance;
+        }
+        return ClaimStatus.Ok;
+    }
+
+    /**
+     * @notice Adds a token to the allowlist of reward tokens if it is not there yet.
+     * @param token_ The address of the token.
+     * @return True if the token was added, false if it was already allowed.
+     */
+    function _allowToken(address token_) internal returns (bool) {
+        if (_allowedTokens[token_]) {
+            return false;
+        }
+        _allowedTokens[token_] = true;
+        emit TokenAllowed(token_);
+        return true;
+    }
+
+    /**
+     * @notice Validates a voucher and marks it as used by recording its digest and advancing the nonce of the user.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param amount The amount of the reward.
+     * @param nonce The nonce associated with the reward.
+     * @param validAfter The timestamp from which the voucher can be claimed.
+     * @param validUntil The timestamp after which the voucher can no longer be claimed.
+     * @param signature The signature to verify the reward claim.
+     */
+    function _useVoucher(
+        address user,
+        address token_,
+        uint256 amount,
+        uint256 nonce,
+        uint256 validAfter,
+        uint256 validUntil,
+        bytes memory signature
+    ) internal {
+        _checkVoucher(token_, validAfter, validUntil);
+        _useSignedClaim(
+            user,
+            token_,
+            amount,
+            nonce,
+            hashClaim(user, token_, amount, nonce, validAfter, validUntil),
+            signature
+        );
+    }
+
+    /**
+     * @notice Marks a signed claim as used by recording its digest and advancing the nonce of the user.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param amount The amount of the reward.
+     * @param nonce The nonce associated with the reward.
+     * @param digest The EIP-712 digest of the claim.
+     * @param signature The signature of the digest.
+     */
+    function _useSignedClaim(
+        address user,
+        address token_,
+        uint256 amount,
+        uint256 nonce,
+        bytes32 digest,
+        bytes memory signature
+    ) internal {
+        if (_usedClaims[digest] || _usedSignatures[keccak256(signature)]) {
+            revert SignatureAlreadyUsed();
+        }
+        if (nonce != _userNonces[user]) {
+            revert InvalidNonce();
+        }
+        if (_revokedClaims[digest]) {
+            revert ClaimRevoked();
+        }
+        if (!_isSignedBySigner(digest, signature)) {
+            revert InvalidSignature();
+        }
+
+        _usedClaims[digest] = true;
+        _userNonces[user] += 1;
+        _consumeLimits(user, token_, amount);
+    }
+
+    /**
+     * @notice Records a signed claim against the rate limits of its token.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param amount The amount of the claim.
+     */
+    function _consumeLimits(address user, address token_, uint256 amount) internal {
+        RateLimits storage limits = _rateLimits[token_];
+        if (limits.maxPerClaim != 0 && amount > limits.maxPerClaim) {
+            revert ClaimLimitExceeded();
+        }
+        if (!_consumeWindow(_userUsage[token_][user], amount, limits.maxPerUser, limits.window)) {
+            revert UserLimitExceeded();
+        }
+        if (!_consumeWindow(_globalUsage[token_], amount, limits.maxTotal, limits.window)) {
+            revert GlobalLimitExceeded();
+        }
+    }
+
+    /**
+     * @notice Adds an amount to the usage of a rate limit, after releasing the part of it that has decayed.
+     * @param usage The usage to update.
+     * @param amount The amount to add.
+     * @param limit The maximum usage at any time, zero for no limit.
+     * @param window The number of seconds over which a usage of the whole limit is released.
+     * @return True if the amount fits within the limit, false otherwise.
+     */
+    function _consumeWindow(
+        WindowUsage storage usage,
+        uint256 amount,
+        uint256 limit,
+        uint64 window
+    ) internal returns (bool) {
+        if (limit == 0) {
+            return true;
+        }
+        uint256 used = _currentUsage(usage, limit, window) + amount;
+        if (used > limit) {
+            return false;
+        }
+        usage.updatedAt = block.timestamp;
+        usage.amount = used;
+        return true;
+    }
+
+    /**
+     * @notice Returns the capacity left under a rate limit.
+     * @param usage The usage of the rate limit.
+     * @param limit The maximum usage at any time, zero for no limit.
+     * @param window The number of seconds over which a usage of the whole limit is released.
+     * @return The remaining capacity, or the maximum uint256 value if there is no limit.
+     */
+    function _remainingCapacity(
+        WindowUsage storage usage,
+        uint256 limit,
+        uint64 window
+    ) internal view returns (uint256) {
+        if (limit == 0) {
+            return type(uint256).max;
+        }
+        uint256 used = _currentUsage(usage, limit, window);
+        return used < limit ? limit - used : 0;
+    }
+
+    /**
+     * @notice Returns the usage of a rate limit now, which decreases by the limit over every window since its update.
+     * @param usage The usage of the rate limit.
+     * @param limit The maximum usage at any time.
+     * @param window The number of seconds over which a usage of the whole limit is released.
+     * @return The usage that still counts against the limit.
+     */
+    function _currentUsage(WindowUsage storage usage, uint256 limit, uint64 window) internal view returns (uint256) {
+        uint256 elapsed = block.timestamp - usage.updatedAt;
+        if (elapsed >= window) {
+            return 0;
+        }
+        uint256 released = limit * elapsed / window;
+        return usage.amount > released ? usage.amount - released : 0;
+    }
+
+    /**
+     * @notice Opens a vesting schedule if the amount is above the vesting threshold of the token.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token.
+     * @param amount The amount of the reward.
+     * @param claimId The nonce of the voucher.
+     * @return True if a schedule was opened, false if the amount should be paid out directly.
+     */
+    function _startVesting(address user, address token_, uint256 amount, uint256 claimId) internal returns (bool) {
+        VestingPolicy storage policy = _vestingPolicies[token_];
+        if (policy.threshold == 0 || amount <= policy.threshold) {
+            return false;
+        }
+
+        uint64 start = uint64(block.timestamp);
+        _vestingSchedules[user][claimId] = VestingSchedule(token_, start, policy.cliff, policy.duration, amount, 0);
+        _vestingReserves[token_] += amount;
+        emit VestingCreated(user, claimId, token_, amount, start, policy.cliff, policy.duration);
+        return true;
+    }
+
+    /**
+     * @notice Checks that an amount paid out in full is not above the vesting threshold of its token.
+     * @param token_ The address of the reward token.
+     * @param amount The amount of the payout.
+     */
+    function _checkUnvested(address token_, uint256 amount) internal view {
+        uint256 threshold = _vestingPolicies[token_].threshold;
+        if (threshold != 0 && amount > threshold) {
+            revert VestingThresholdExceeded();
+        }
+    }
+
+    /**
+     * @notice Returns the amount of a vesting schedule that has vested to date.
+     * @param schedule The vesting schedule.
+     * @return Zero before the cliff, then an amount growing linearly up to the total at the end of the duration.
+     */
+    function _vestedAmount(VestingSchedule storage schedule) internal view returns (uint256) {
+        uint256 elapsed = block.timestamp - schedule.start;
+        if (schedule.total == 0 || elapsed < schedule.cliff) {
+            return 0;
+        }
+        if (elapsed >= schedule.duration) {
+            return schedule.total;
+        }
+        return schedule.total * elapsed / schedule.duration;
+    }
+
+    /**
+     * @notice Pays a reward out and adds it to the distributed tally of its token.
+     * @param user The address of the user.
+     * @param token_ The address of the reward token, or NATIVE_TOKEN for native currency.
+     * @param amount The amount of the reward.
+     * @dev Reverts if the reward would dip into the funds reserved for vesting schedules.
+     */
+    function _payReward(address user, address token_, uint256 amount) internal {
+        _checkAvailable(token_, amount);
+        _transferOut(token_, user, amount);
+        _distributed[token_] += amount;
+        emit RewardPaid(user, token_, amount);
+    }
+
+    /**
+     * @notice Checks that an amount can be paid out without dipping into the funds reserved for vesting schedules.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @param amount The amount to pay out.
+     */
+    function _checkAvailable(address token_, uint256 amount) internal view {
+        if (amount > availableBalance(token_)) {
+            revert InsufficientFunds();
+        }
+    }
+
+    /**
+     * @notice Transfers funds out of the treasury.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @param to The address of the recipient.
+     * @param amount The amount to withdraw.
+     */
+    function _withdraw(address token_, address to, uint256 amount) internal {
+        if (to == address(0)) {
+            revert ZeroAddress();
+        }
+        _transferOut(token_, to, amount);
+        emit Withdrawn(token_, to, amount);
+    }
+
+    /**
+     * @notice Transfers tokens or native currency out of the contract.
+     * @param token_ The address of the token, or NATIVE_TOKEN for native currency.
+     * @param to The address of the recipient.
+     * @param amount The amount to transfer.
+     * @dev Reverts if the recipient rejects a native currency transfer.
+     */
+    function _transferOut(address token_, address to, uint256 amount) internal {
+        if (token_ == NATIVE_TOKEN) {
+            (bool success, ) = to.call{ value: amount }("");
+            if (!success) {
+                revert NativeTransferFailed();
+            }
+        } else {
+            IERC20(token_).safeTransfer(to, amount);
+        }
+    }
+
+    /**
+     * @notice Makes the contract the admin of every role and sets the default delay of sensitive operations.
+     */
+    function _enableOperations() internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, address(this));
+        _operationDelay = DEFAULT_OPERATION_DELAY;
+        emit OperationDelayChanged(DEFAULT_OPERATION_DELAY);
+    }
+
+    /**
+     * @notice Returns the role required to schedule and execute an operation.
+     * @param data The call data of the operation.
+     * @return The UPGRADER_ROLE for upgrades, the ADMIN_ROLE otherwise.
+     */
+    function _operationRole(bytes calldata data) internal pure returns (bytes32) {
+        return bytes4(data) == this.upgradeToAndCall.selector ? UPGRADER_ROLE : ADMIN_ROLE;
     }
 
     /**
      * @notice Authorizes an upgrade to a new implementation.
      * @param newImplementation The address of the new implementation.
-     * @dev Can only be called by an address with the UPGRADER_ROLE.
+     * @dev Can only be called by the contract itself, through an operation scheduled by the UPGRADER_ROLE.
      */
-    function _authorizeUpgrade(address newImplementation) internal onlyRole(UPGRADER_ROLE) override {}
+    function _authorizeUpgrade(address newImplementation) internal onlyRole(DEFAULT_ADMIN_ROLE) override {}
 }
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import { PausableUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+
+/// @title FundsDistributorLayoutMock
+/// @dev A release of FundsDistributor whose storage layout is incompatible with the initial release,
+/// kept to test that the upgrade pipeline rejects it.
+contract FundsDistributorLayoutMock is Initializable, PausableUpgradeable, AccessControlUpgradeable, UUPSUpgradeable {
+    // The nonces of the initial release moved into the slot of its token.
+    mapping(address => uint256) internal _userNonces;
+
+    address internal _token;
+
+    mapping(bytes32 => bool) internal _usedSignatures;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override {}
+}
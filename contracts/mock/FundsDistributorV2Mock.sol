@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import { FundsDistributor } from "../FundsDistributor.sol";
+
+/// @title FundsDistributorV2Mock
+/// @dev A future release of FundsDistributor appending storage, kept to test the upgrade pipeline.
+contract FundsDistributorV2Mock is FundsDistributor {
+    // The timestamp at which the proxy was upgraded to this release.
+    uint256 internal _upgradedAt;
+
+    function initializeV4() reinitializer(4) public {
+        _upgradedAt = block.timestamp;
+    }
+
+    function upgradedAt() external view returns (uint256) {
+        return _upgradedAt;
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+/// @title NativeReceiverMock
+/// @dev A contract account that calls the distributor on its own behalf and, when paid in native currency,
+/// either rejects the payment or calls the distributor again.
+contract NativeReceiverMock {
+    address public distributor;
+    bool public rejectsPayments;
+    bytes public reentryData;
+
+    error PaymentRejected();
+
+    constructor(address distributor_) {
+        distributor = distributor_;
+    }
+
+    function configure(bool rejectsPayments_, bytes calldata reentryData_) external {
+        rejectsPayments = rejectsPayments_;
+        reentryData = reentryData_;
+    }
+
+    function execute(bytes calldata data) external {
+        _callDistributor(data);
+    }
+
+    receive() external payable {
+        if (rejectsPayments) {
+            revert PaymentRejected();
+        }
+        if (reentryData.length != 0) {
+            _callDistributor(reentryData);
+        }
+    }
+
+    function _callDistributor(bytes memory data) private {
+        (bool success, bytes memory result) = distributor.call(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+}
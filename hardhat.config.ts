@@ -3,6 +3,7 @@ import "@openzeppelin/hardhat-upgrades";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-verify";
 import "solidity-docgen";
+import "./tasks/distributor";
 
 import dotenv from "dotenv";
 dotenv.config();
@@ -11,20 +12,25 @@ const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
     settings: {
+      // FundsDistributor must stay under the 24 KiB code size limit of
+      // EIP-170: the legacy pipeline compiles it to about 26 KB, the IR
+      // pipeline to about 23 KB with the optimizer favouring code size over
+      // runtime gas.
       optimizer: {
         enabled: true,
-        runs: 200,
+        runs: 1,
       },
+      viaIR: true,
     },
   },
   networks: {
     localhost: {
       url: process.env.LOCALHOST_RPC,
-      accounts: [process.env.LOCALHOST_PK ?? ""],
+      accounts: process.env.LOCALHOST_PK ? [process.env.LOCALHOST_PK] : [],
     },
     testnet: {
       url: process.env.TESTNET_RPC,
-      accounts: [process.env.TESTNET_PK ?? ""],
+      accounts: process.env.TESTNET_PK ? [process.env.TESTNET_PK] : [],
     },
   },
   etherscan: {
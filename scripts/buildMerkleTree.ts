@@ -0,0 +1,150 @@
+import { ethers } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import fs from "fs";
+import path from "path";
+import { checkUnvestedAmount } from "./voucher";
+
+// Must match the leaf hashed by `FundsDistributor.claimEpochReward`.
+const LEAF_ENCODING = ["uint256", "address", "uint256"];
+
+export interface DistributionEntry {
+  address: string;
+  amount: bigint;
+}
+
+export interface EpochProof {
+  index: number;
+  user: string;
+  amount: string;
+  proof: string[];
+}
+
+export interface MerkleDistribution {
+  merkleRoot: string;
+  total: string;
+  proofs: EpochProof[];
+}
+
+// Parses `address,amount` lines (an optional header line is skipped) or a JSON
+// array of `{ "address", "amount" }` objects.
+export function parseDistribution(
+  content: string,
+  format: "csv" | "json",
+): DistributionEntry[] {
+  if (format === "json") {
+    const rows: { address: string; amount: string | number }[] =
+      JSON.parse(content);
+    return rows.map((row) => toEntry(row.address, String(row.amount)));
+  }
+
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line, index) => line && !(index === 0 && !/^0x/i.test(line)))
+    .map((line) => {
+      const [address, amount] = line.split(",").map((value) => value.trim());
+      return toEntry(address, amount);
+    });
+}
+
+function toEntry(address: string, amount: string): DistributionEntry {
+  if (!ethers.isAddress(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+  if (!/^\d+$/.test(amount ?? "")) {
+    throw new Error(`Invalid amount for ${address}: ${amount}`);
+  }
+  return { address: ethers.getAddress(address), amount: BigInt(amount) };
+}
+
+// Builds one leaf per address, summing the amounts of repeated addresses, so
+// that every user has a single proof per epoch. Epoch rewards are paid out in
+// full, so none may exceed the vesting threshold of the token, if set.
+export function buildMerkleDistribution(
+  entries: DistributionEntry[],
+  vestingThreshold: bigint = 0n,
+): MerkleDistribution {
+  const amounts = new Map<string, bigint>();
+  for (const { address, amount } of entries) {
+    amounts.set(address, (amounts.get(address) ?? 0n) + amount);
+  }
+  if (amounts.size === 0) {
+    throw new Error("The distribution is empty");
+  }
+  for (const [address, amount] of amounts) {
+    checkUnvestedAmount(amount, vestingThreshold, `The reward of ${address}`);
+  }
+
+  const values: [number, string, string][] = [...amounts].map(
+    ([address, amount], index) => [index, address, amount.toString()],
+  );
+  const tree = StandardMerkleTree.of(values, LEAF_ENCODING);
+
+  let total = 0n;
+  const proofs: EpochProof[] = [];
+  for (const [leafIndex, [index, user, amount]] of tree.entries()) {
+    total += BigInt(amount);
+    proofs.push({ index, user, amount, proof: tree.getProof(leafIndex) });
+  }
+
+  return { merkleRoot: tree.root, total: total.toString(), proofs };
+}
+
+// Writes `root.json` with the root and the budget to publish, and one proof
+// file per user named after the address.
+export function writeMerkleDistribution(
+  distribution: MerkleDistribution,
+  outputDir: string,
+) {
+  const proofsDir = path.join(outputDir, "proofs");
+  fs.mkdirSync(proofsDir, { recursive: true });
+
+  fs.writeFileSync(
+    path.join(outputDir, "root.json"),
+    JSON.stringify(
+      {
+        merkleRoot: distribution.merkleRoot,
+        total: distribution.total,
+        count: distribution.proofs.length,
+      },
+      null,
+      2,
+    ),
+  );
+  for (const proof of distribution.proofs) {
+    fs.writeFileSync(
+      path.join(proofsDir, `${proof.user}.json`),
+      JSON.stringify(proof, null, 2),
+    );
+  }
+}
+
+async function main() {
+  const [inputFile, outputDir = "merkle"] = process.argv.slice(2);
+  if (!inputFile) {
+    throw new Error(
+      "Usage: ts-node scripts/buildMerkleTree.ts <distribution.csv|json> [outputDir]",
+    );
+  }
+  const format = path.extname(inputFile) === ".json" ? "json" : "csv";
+  const entries = parseDistribution(fs.readFileSync(inputFile, "utf8"), format);
+  const distribution = buildMerkleDistribution(
+    entries,
+    BigInt(process.env.VESTING_THRESHOLD || 0),
+  );
+
+  writeMerkleDistribution(distribution, outputDir);
+  console.log(`Merkle root: ${distribution.merkleRoot}`);
+  console.log(
+    `Saved ${distribution.proofs.length} proofs for a total of ${distribution.total} in ${outputDir}`,
+  );
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
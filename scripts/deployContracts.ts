@@ -1,25 +1,42 @@
-import { ethers, upgrades } from "hardhat";
+import { ethers, network } from "hardhat";
+import {
+  deployDistributor,
+  getConfigPath,
+  loadDeploymentConfig,
+  saveDeploymentConfig,
+} from "./deployment";
+import { createSigner, loadSignerConfig } from "./signers";
 
 async function main() {
-  const [deployer] = await ethers.getSigners();
-
-  console.log("Deploying contracts with the account:", deployer.address);
+  const deployer = await createSigner(
+    loadSignerConfig("DEPLOYER", "LOCALHOST_PK"),
+    ethers.provider,
+  );
+  const configPath = getConfigPath(network.name);
+  const config = loadDeploymentConfig(configPath);
 
-  const Token = await ethers.getContractFactory("TestToken");
-  const token = await Token.deploy();
-  await token.waitForDeployment();
-  const tokenAddress = await token.getAddress();
-  console.log("TestToken deployed to:", tokenAddress);
+  if (config.distributor) {
+    await deployDistributor(deployer, config);
+    console.log("Reusing the FundsDistributor at:", config.distributor);
+    return;
+  }
 
-  const FundsDistributor = await ethers.getContractFactory("FundsDistributor");
-  const distributor = await upgrades.deployProxy(
-    FundsDistributor,
-    [deployer.address, deployer.address, deployer.address, tokenAddress],
-    { initializer: "initialize", kind: "uups" },
+  console.log(
+    "Deploying contracts with the account:",
+    await deployer.getAddress(),
   );
-  await distributor.waitForDeployment();
-  const distributorAddress = await distributor.getAddress();
-  console.log("FundsDistributor deployed to:", distributorAddress);
+
+  const deployment = await deployDistributor(deployer, config);
+  if (!config.token) {
+    console.log("TestToken deployed to:", deployment.token);
+  }
+  console.log("FundsDistributor deployed to:", deployment.distributor);
+
+  // The in-process network is gone once the script ends.
+  if (network.name !== "hardhat") {
+    saveDeploymentConfig(configPath, deployment);
+    console.log("Deployment recorded in:", configPath);
+  }
 }
 
 main()
@@ -0,0 +1,308 @@
+import { ethers, upgrades } from "hardhat";
+import { Contract, ContractFactory, Signer } from "ethers";
+import fs from "fs";
+import path from "path";
+
+export const CONFIG_DIR = "config";
+
+// The slot of the ERC-7201 storage of `Initializable`, which starts with the
+// version of the last initializer called as a `uint64`.
+const INITIALIZABLE_STORAGE =
+  "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00";
+
+// The roles granted at deployment, checked across upgrades. They are hashed
+// here, as the initial release does not expose `SIGNER_ROLE`.
+export const ROLES = {
+  pauser: ethers.id("PAUSER_ROLE"),
+  upgrader: ethers.id("UPGRADER_ROLE"),
+  admin: ethers.id("ADMIN_ROLE"),
+  signer: ethers.id("SIGNER_ROLE"),
+};
+
+export type RoleName = keyof typeof ROLES;
+
+const abi = [
+  "function token() external view returns (address)",
+  "function getNonce(address user) external view returns (uint256)",
+  "function hasRole(bytes32 role, address account) external view returns (bool)",
+  "function getOperationReadyAt(bytes32 operationId) external view returns (uint256)",
+  "function scheduleOperation(bytes calldata data) external returns (bytes32)",
+  "function executeOperation(bytes calldata data) external",
+];
+
+// The deployment on a network, read from `config/<network>.json`.
+export interface DeploymentConfig {
+  // The proxy of an existing deployment, reused instead of deploying anew.
+  distributor?: string;
+  // The default token, a `TestToken` is deployed if omitted.
+  token?: string;
+  // The holders of the roles, the deployer for those omitted.
+  roles?: Partial<Record<RoleName, string>>;
+  // The users whose nonces must survive upgrades.
+  users?: string[];
+}
+
+// The state an upgrade must preserve.
+export interface DistributorState {
+  token: string;
+  nonces: Record<string, bigint>;
+  // Whether each configured holder has its role, keyed by `<role> <account>`.
+  roles: Record<string, boolean>;
+}
+
+export type UpgradeResult =
+  | { status: "upgraded"; implementation: string; reinitializers: string[] }
+  | {
+      // Scheduled by this call, or scheduled earlier and not ready yet.
+      status: "scheduled" | "pending";
+      implementation: string;
+      operationId: string;
+      readyAt: bigint;
+    };
+
+export function getConfigPath(network: string): string {
+  return (
+    process.env.DEPLOYMENT_CONFIG || path.join(CONFIG_DIR, `${network}.json`)
+  );
+}
+
+// Reads the deployment of a network, empty if it has none yet.
+export function loadDeploymentConfig(file: string): DeploymentConfig {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  const config: DeploymentConfig = JSON.parse(fs.readFileSync(file, "utf8"));
+  for (const [role, account] of Object.entries(config.roles ?? {})) {
+    if (!(role in ROLES)) {
+      throw new Error(`Unknown role ${role} in ${file}`);
+    }
+    config.roles![role as RoleName] = ethers.getAddress(account);
+  }
+  return {
+    ...config,
+    distributor: config.distributor && ethers.getAddress(config.distributor),
+    token: config.token && ethers.getAddress(config.token),
+    users: config.users?.map((user) => ethers.getAddress(user)),
+  };
+}
+
+export function saveDeploymentConfig(file: string, config: DeploymentConfig) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(config, null, 2) + "\n");
+}
+
+// Deploys the distributor described by the configuration, and its token if
+// none is configured. An existing deployment is reused as is. Returns the
+// configuration completed with the addresses deployed and the role holders.
+export async function deployDistributor(
+  deployer: Signer,
+  config: DeploymentConfig,
+): Promise<DeploymentConfig> {
+  if (config.distributor) {
+    const code = await deployer.provider!.getCode(config.distributor);
+    if (code === "0x") {
+      throw new Error(`No contract at ${config.distributor}`);
+    }
+    return config;
+  }
+
+  const deployerAddress = await deployer.getAddress();
+  const roles = { ...config.roles };
+  for (const role of Object.keys(ROLES) as RoleName[]) {
+    roles[role] ??= deployerAddress;
+  }
+
+  let token = config.token;
+  if (!token) {
+    const Token = await ethers.getContractFactory("TestToken", deployer);
+    const testToken = await Token.deploy();
+    await testToken.waitForDeployment();
+    token = await testToken.getAddress();
+  }
+
+  const FundsDistributor = await ethers.getContractFactory(
+    "FundsDistributor",
+    deployer,
+  );
+  const distributor = await upgrades.deployProxy(
+    FundsDistributor,
+    [roles.pauser, roles.upgrader, roles.admin, token, roles.signer],
+    { initializer: "initialize", kind: "uups" },
+  );
+  await distributor.waitForDeployment();
+
+  return {
+    ...config,
+    distributor: await distributor.getAddress(),
+    token,
+    roles,
+  };
+}
+
+export async function getDistributorState(
+  distributor: string,
+  config: DeploymentConfig,
+): Promise<DistributorState> {
+  const contract = new Contract(distributor, abi, ethers.provider);
+  const state: DistributorState = {
+    token: await contract.token(),
+    nonces: {},
+    roles: {},
+  };
+  for (const user of config.users ?? []) {
+    state.nonces[user] = await contract.getNonce(user);
+  }
+  for (const [role, account] of Object.entries(config.roles ?? {})) {
+    state.roles[`${role} ${account}`] = await contract.hasRole(
+      ROLES[role as RoleName],
+      account,
+    );
+  }
+  return state;
+}
+
+// Describes every difference between the state before and after an upgrade.
+export function compareStates(
+  before: DistributorState,
+  after: DistributorState,
+): string[] {
+  const differences: string[] = [];
+  if (before.token !== after.token) {
+    differences.push(`Token changed from ${before.token} to ${after.token}`);
+  }
+  for (const [user, nonce] of Object.entries(before.nonces)) {
+    if (after.nonces[user] !== nonce) {
+      differences.push(
+        `Nonce of ${user} changed from ${nonce} to ${after.nonces[user]}`,
+      );
+    }
+  }
+  for (const [key, held] of Object.entries(before.roles)) {
+    if (after.roles[key] !== held) {
+      const [role, account] = key.split(" ");
+      differences.push(
+        `${account} ${held ? "lost" : "gained"} the ${role} role`,
+      );
+    }
+  }
+  return differences;
+}
+
+// The version of the last initializer called on a proxy.
+export async function getInitializedVersion(
+  distributor: string,
+): Promise<bigint> {
+  const slot = await ethers.provider.getStorage(
+    distributor,
+    INITIALIZABLE_STORAGE,
+  );
+  return BigInt(slot) & (2n ** 64n - 1n);
+}
+
+// The `initializeV<N>()` functions of a release a proxy initialized up to
+// `version` has not called yet, in order.
+export function getPendingReinitializers(
+  factory: ContractFactory,
+  version: bigint,
+): string[] {
+  const reinitializers: [bigint, string][] = [];
+  factory.interface.forEachFunction((fragment) => {
+    const match = /^initializeV(\d+)$/.exec(fragment.name);
+    if (match && fragment.inputs.length === 0 && BigInt(match[1]) > version) {
+      reinitializers.push([BigInt(match[1]), fragment.name]);
+    }
+  });
+  return reinitializers
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([, name]) => name);
+}
+
+// Upgrades the configured distributor to the `contractName` release, after
+// validating its storage layout against the implementation recorded in the
+// manifest of the network. Then calls the reinitializers of the release the
+// proxy has not called yet, which are harmless on the fresh deployments they
+// do not apply to, and checks that the token, the nonces of the configured
+// users and the configured roles are preserved.
+//
+// A proxy that timelocks its upgrades is upgraded through an operation: the
+// first call schedules it, and calls made once the delay has passed execute
+// it.
+export async function upgradeDistributor(
+  upgrader: Signer,
+  config: DeploymentConfig,
+  contractName: string = "FundsDistributor",
+): Promise<UpgradeResult> {
+  if (!config.distributor) {
+    throw new Error("No distributor is deployed on this network");
+  }
+  const distributor = config.distributor;
+  const factory = await ethers.getContractFactory(contractName, upgrader);
+  await upgrades.validateUpgrade(distributor, factory, { kind: "uups" });
+
+  const contract = new Contract(distributor, abi, upgrader);
+  const reinitializers = getPendingReinitializers(
+    factory,
+    await getInitializedVersion(distributor),
+  );
+  const [call, ...calls] = reinitializers;
+  const timelocked: boolean = await contract.hasRole(
+    ethers.ZeroHash,
+    distributor,
+  );
+
+  let before: DistributorState;
+  let implementation: string;
+  if (timelocked) {
+    implementation = (await upgrades.prepareUpgrade(distributor, factory, {
+      kind: "uups",
+    })) as string;
+    const data = factory.interface.encodeFunctionData("upgradeToAndCall", [
+      implementation,
+      call ? factory.interface.encodeFunctionData(call) : "0x",
+    ]);
+    const operationId = ethers.keccak256(data);
+    let readyAt: bigint = await contract.getOperationReadyAt(operationId);
+    if (readyAt === 0n) {
+      await (await contract.scheduleOperation(data)).wait();
+      readyAt = await contract.getOperationReadyAt(operationId);
+      return { status: "scheduled", implementation, operationId, readyAt };
+    }
+    const latest = await ethers.provider.getBlock("latest");
+    if (readyAt > BigInt(latest!.timestamp)) {
+      return { status: "pending", implementation, operationId, readyAt };
+    }
+    before = await getDistributorState(distributor, config);
+    await (await contract.executeOperation(data)).wait();
+  } else {
+    before = await getDistributorState(distributor, config);
+    const upgraded = await upgrades.upgradeProxy(distributor, factory, {
+      kind: "uups",
+      call,
+    });
+    await upgraded.waitForDeployment();
+    implementation =
+      await upgrades.erc1967.getImplementationAddress(distributor);
+  }
+
+  const release = factory.attach(distributor) as Contract;
+  for (const name of calls) {
+    await (await release.getFunction(name)()).wait();
+  }
+
+  const current = await upgrades.erc1967.getImplementationAddress(distributor);
+  if (current !== implementation) {
+    throw new Error(
+      `The implementation is ${current} instead of ${implementation}`,
+    );
+  }
+  const differences = compareStates(
+    before,
+    await getDistributorState(distributor, config),
+  );
+  if (differences.length > 0) {
+    throw new Error(
+      `The upgrade did not preserve the state:\n${differences.join("\n")}`,
+    );
+  }
+  return { status: "upgraded", implementation, reinitializers };
+}
@@ -0,0 +1,15 @@
+import { ethers } from "ethers";
+import { FundsDistributorError, toDistributorError } from "../sdk/errors";
+
+// Names the custom error a call reverted with, decoded like the SDK does,
+// falling back to the message of the error when it is not one of the contract.
+export function describeError(
+  contract: ethers.BaseContract,
+  error: unknown,
+): string {
+  const decoded = toDistributorError(contract.interface, error);
+  if (decoded instanceof FundsDistributorError) {
+    return decoded.errorName;
+  }
+  return (error as ethers.CallExceptionError).shortMessage ?? String(error);
+}
@@ -1,25 +1,327 @@
 import { ethers } from "ethers";
 import fs from "fs";
+import path from "path";
 import dotenv from "dotenv";
 dotenv.config();
 
-const provider = new ethers.JsonRpcProvider(process.env.LOCALHOST_RPC);
+const abi = [
+  "event RewardPaid(address indexed user, address indexed token, uint256 amount)",
+  "event TokenConfigured(address indexed newToken)",
+  "event CampaignRewardPaid(uint256 indexed campaignId, address indexed user, uint256 amount)",
+  "function totalDistributed(address token) external view returns (uint256)",
+];
 
-const contractAddress = process.env.DISTRIBUTOR_ADDRESS || "";
-const abi = ["event RewardPaid(address indexed user, uint256 amount)"];
+export const DEFAULT_CHUNK_SIZE = 2_000;
+export const DEFAULT_CONFIRMATIONS = 12;
 
-const contract = new ethers.Contract(contractAddress, abi, provider);
+export interface IndexedEvent {
+  event: "RewardPaid" | "TokenConfigured" | "CampaignRewardPaid";
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  // Unset for campaign payouts, whose token is the one of their `RewardPaid`.
+  token?: string;
+  user?: string;
+  amount?: string;
+  campaignId?: string;
+}
+
+// The checkpoint of the indexer: every event found so far and the last block
+// scanned, from which the next run resumes.
+export interface IndexerState {
+  lastBlock: number;
+  events: IndexedEvent[];
+}
+
+export interface IndexerOptions {
+  fromBlock?: number;
+  chunkSize?: number;
+  // Blocks below the head that are left for a later run, so that events of
+  // blocks that may still be reorganized are never recorded.
+  confirmations?: number;
+  onCheckpoint?: (state: IndexerState) => void;
+}
+
+export interface UserTotal {
+  user: string;
+  token: string;
+  claims: number;
+  total: string;
+}
+
+export interface CampaignTotal {
+  campaignId: string;
+  claims: number;
+  total: string;
+}
+
+export function loadCheckpoint(file: string): IndexerState | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export function saveCheckpoint(file: string, state: IndexerState) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state, null, 2));
+}
+
+// Fetches the logs matching a filter from `fromBlock` to `toBlock` in chunks of
+// `chunkSize` blocks, so that no query exceeds the block range of the node.
+// The callback runs after every chunk with its logs and its last block.
+export async function getLogsInChunks(
+  provider: ethers.Provider,
+  filter: { address: string; topics: ethers.TopicFilter },
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number = DEFAULT_CHUNK_SIZE,
+  onChunk?: (logs: ethers.Log[], lastBlock: number) => void,
+): Promise<ethers.Log[]> {
+  const logs: ethers.Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    const chunk = await provider.getLogs({
+      ...filter,
+      fromBlock: start,
+      toBlock: end,
+    });
+    logs.push(...chunk);
+    onChunk?.(chunk, end);
+  }
+  return logs;
+}
+
+// Scans the distributor in chunks of blocks up to the confirmed head, resuming
+// after the last block of the given state. The checkpoint callback runs after
+// every chunk, so an interrupted run loses at most one chunk of work.
+export async function indexEvents(
+  contract: ethers.Contract,
+  state: IndexerState | undefined,
+  options: IndexerOptions = {},
+): Promise<IndexerState> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("The contract is not connected to a provider");
+  }
+  const confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+  const next: IndexerState = state
+    ? { lastBlock: state.lastBlock, events: [...state.events] }
+    : { lastBlock: (options.fromBlock ?? 0) - 1, events: [] };
+
+  const address = await contract.getAddress();
+  const topics = [
+    contract.interface.getEvent("RewardPaid")!.topicHash,
+    contract.interface.getEvent("TokenConfigured")!.topicHash,
+    contract.interface.getEvent("CampaignRewardPaid")!.topicHash,
+  ];
+  const safeBlock = (await provider.getBlockNumber()) - confirmations;
+
+  await getLogsInChunks(
+    provider,
+    { address, topics: [topics] },
+    next.lastBlock + 1,
+    safeBlock,
+    options.chunkSize,
+    (logs, lastBlock) => {
+      for (const log of logs) {
+        next.events.push(decodeLog(contract, log));
+      }
+      next.lastBlock = lastBlock;
+      options.onCheckpoint?.(next);
+    },
+  );
 
-async function getEvents() {
-  const filter = contract.filters.RewardPaid();
+  return next;
+}
+
+function decodeLog(contract: ethers.Contract, log: ethers.Log): IndexedEvent {
+  const parsed = contract.interface.parseLog(log)!;
+  const base = {
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+  };
+  if (parsed.name === "TokenConfigured") {
+    return { event: "TokenConfigured", ...base, token: parsed.args.newToken };
+  }
+  if (parsed.name === "CampaignRewardPaid") {
+    return {
+      event: "CampaignRewardPaid",
+      ...base,
+      campaignId: parsed.args.campaignId.toString(),
+      user: parsed.args.user,
+      amount: parsed.args.amount.toString(),
+    };
+  }
+  return {
+    event: "RewardPaid",
+    ...base,
+    token: parsed.args.token,
+    user: parsed.args.user,
+    amount: parsed.args.amount.toString(),
+  };
+}
+
+export function summarizeByUser(events: IndexedEvent[]): UserTotal[] {
+  const totals = new Map<string, { claims: number; total: bigint }>();
+  for (const event of events) {
+    if (event.event !== "RewardPaid") {
+      continue;
+    }
+    const key = `${event.user},${event.token}`;
+    const entry = totals.get(key) ?? { claims: 0, total: 0n };
+    entry.claims += 1;
+    entry.total += BigInt(event.amount ?? 0);
+    totals.set(key, entry);
+  }
+  return [...totals.entries()].map(([key, entry]) => {
+    const [user, token] = key.split(",");
+    return { user, token, claims: entry.claims, total: entry.total.toString() };
+  });
+}
 
-  const events = await contract.queryFilter(filter, 0, "latest");
-  const data = events.map((event) => ({
-    topics: event.topics,
-    blockNumber: event.blockNumber,
-    transactionHash: event.transactionHash,
+export function summarizeByCampaign(events: IndexedEvent[]): CampaignTotal[] {
+  const totals = new Map<string, { claims: number; total: bigint }>();
+  for (const event of events) {
+    if (event.event !== "CampaignRewardPaid") {
+      continue;
+    }
+    const entry = totals.get(event.campaignId!) ?? { claims: 0, total: 0n };
+    entry.claims += 1;
+    entry.total += BigInt(event.amount ?? 0);
+    totals.set(event.campaignId!, entry);
+  }
+  return [...totals.entries()].map(([campaignId, entry]) => ({
+    campaignId,
+    claims: entry.claims,
+    total: entry.total.toString(),
   }));
+}
+
+export interface Reconciliation {
+  token: string;
+  indexed: string;
+  onChain: string;
+  matches: boolean;
+}
+
+// Compares the indexed payouts of each token with the tally kept by the
+// distributor as of the last indexed block, so that the payouts of the blocks
+// left unconfirmed are not counted. They only match when the index starts at
+// the deployment block.
+export async function reconcile(
+  contract: ethers.Contract,
+  state: IndexerState,
+): Promise<Reconciliation[]> {
+  const indexed = new Map<string, bigint>();
+  for (const total of summarizeByUser(state.events)) {
+    indexed.set(
+      total.token,
+      (indexed.get(total.token) ?? 0n) + BigInt(total.total),
+    );
+  }
+  const reconciliation: Reconciliation[] = [];
+  for (const [token, amount] of indexed) {
+    const onChain: bigint = await contract.totalDistributed(token, {
+      blockTag: state.lastBlock,
+    });
+    reconciliation.push({
+      token,
+      indexed: amount.toString(),
+      onChain: onChain.toString(),
+      matches: amount === onChain,
+    });
+  }
+  return reconciliation;
+}
+
+export function toCsv<T extends object>(
+  columns: (keyof T)[],
+  rows: T[],
+): string {
+  const lines = rows.map((row) =>
+    columns.map((column) => String(row[column] ?? "")).join(","),
+  );
+  return [columns.join(","), ...lines].join("\n") + "\n";
+}
+
+export function writeReports(state: IndexerState, outputDir: string) {
+  const totals = summarizeByUser(state.events);
+  const campaigns = summarizeByCampaign(state.events);
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(outputDir, "events.json"),
+    JSON.stringify(state.events, null, 2),
+  );
+  fs.writeFileSync(
+    path.join(outputDir, "events.csv"),
+    toCsv<IndexedEvent>(
+      [
+        "event",
+        "blockNumber",
+        "logIndex",
+        "transactionHash",
+        "token",
+        "user",
+        "amount",
+        "campaignId",
+      ],
+      state.events,
+    ),
+  );
+  fs.writeFileSync(
+    path.join(outputDir, "totals.json"),
+    JSON.stringify(totals, null, 2),
+  );
+  fs.writeFileSync(
+    path.join(outputDir, "totals.csv"),
+    toCsv<UserTotal>(["user", "token", "claims", "total"], totals),
+  );
+  fs.writeFileSync(
+    path.join(outputDir, "campaigns.json"),
+    JSON.stringify(campaigns, null, 2),
+  );
+  fs.writeFileSync(
+    path.join(outputDir, "campaigns.csv"),
+    toCsv<CampaignTotal>(["campaignId", "claims", "total"], campaigns),
+  );
+}
+
+async function main() {
+  const [outputDir = "events"] = process.argv.slice(2);
+  const provider = new ethers.JsonRpcProvider(process.env.LOCALHOST_RPC);
+  const contract = new ethers.Contract(
+    process.env.DISTRIBUTOR_ADDRESS || "",
+    abi,
+    provider,
+  );
+  const checkpointFile = path.join(outputDir, "checkpoint.json");
+
+  const state = await indexEvents(contract, loadCheckpoint(checkpointFile), {
+    fromBlock: Number(process.env.INDEXER_FROM_BLOCK || 0),
+    confirmations: Number(
+      process.env.INDEXER_CONFIRMATIONS || DEFAULT_CONFIRMATIONS,
+    ),
+    onCheckpoint: (checkpoint) => saveCheckpoint(checkpointFile, checkpoint),
+  });
+  writeReports(state, outputDir);
+  console.log(
+    `Indexed ${state.events.length} events up to block ${state.lastBlock} in ${outputDir}`,
+  );
+
+  for (const entry of await reconcile(contract, state)) {
+    console.log(
+      `${entry.token}: indexed ${entry.indexed}, on-chain ${entry.onChain}${entry.matches ? "" : " (mismatch)"}`,
+    );
+  }
+}
 
-  fs.writeFileSync("events.json", JSON.stringify(data, null, 2));
-  console.log(`Saved ${data.length} events in events.json`);
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
 }
@@ -1,4 +1,5 @@
 import { ethers } from "ethers";
+import { BatchClaim, SignedClaim, assembleBatch } from "./voucher";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -7,15 +8,37 @@ const provider = new ethers.JsonRpcProvider(process.env.LOCALHOST_RPC);
 const contractAddress = process.env.DISTRIBUTOR_ADDRESS || "";
 const abi = [
   "function getNonce(address user) external view returns (uint256)",
-  "function verifySignature(address user, uint256 amount, uint256 nonce, uint256 chainId, bytes memory signature) public view returns (bool)",
+  "function verifySignature(address user, address token, uint256 amount, uint256 nonce, uint256 validAfter, uint256 validUntil, uint256 chainId, bytes memory signature) public view returns (bool)",
+  "function isSigner(address account) external view returns (bool)",
+  "function isTokenAllowed(address token) external view returns (bool)",
+  "function getCumulativeClaimed(address user, address token) external view returns (uint256)",
+  "function getCumulativeClaimable(address user, address token, uint256 cumulativeAmount) external view returns (uint256)",
+  "function releasableAmount(address user, uint256 claimId) external view returns (uint256)",
+  "function getVestingPolicy(address token) external view returns (tuple(uint256 threshold, uint64 cliff, uint64 duration))",
+  "function getCampaign(uint256 campaignId) external view returns (tuple(address token, uint64 start, uint64 end, bool active, uint256 budget, uint256 spent))",
+  "function isClaimUsed(bytes32 digest) external view returns (bool)",
 ];
 
 const contract = new ethers.Contract(contractAddress, abi, provider);
 
-export async function getNonce(userAddress: string): Promise<number> {
+// The timestamp of the latest block, which the distributor checks the validity
+// windows of vouchers against rather than the clock of this host.
+export async function getLatestTimestamp(): Promise<number> {
   try {
-    const nonce = await contract.getNonce(userAddress);
-    return Number(nonce);
+    const block = await provider.getBlock("latest");
+    if (!block) {
+      throw new Error("The latest block is not available");
+    }
+    return block.timestamp;
+  } catch (error) {
+    console.error("Error getting latest block:", error);
+    throw error;
+  }
+}
+
+export async function getNonce(userAddress: string): Promise<bigint> {
+  try {
+    return await contract.getNonce(userAddress);
   } catch (error) {
     console.error("Error getting nonce:", error);
     throw error;
@@ -24,16 +47,22 @@ export async function getNonce(userAddress: string): Promise<number> {
 
 export async function verifySignature(
   user: string,
-  amount: number,
-  nonce: number,
-  chainId: number,
+  token: string,
+  amount: ethers.BigNumberish,
+  nonce: ethers.BigNumberish,
+  validAfter: ethers.BigNumberish,
+  validUntil: ethers.BigNumberish,
+  chainId: ethers.BigNumberish,
   signature: string,
 ): Promise<boolean> {
   try {
     return await contract.verifySignature(
       user,
+      token,
       amount,
       nonce,
+      validAfter,
+      validUntil,
       chainId,
       signature,
     );
@@ -42,3 +71,97 @@ export async function verifySignature(
     throw error;
   }
 }
+
+export async function isSigner(account: string): Promise<boolean> {
+  try {
+    return await contract.isSigner(account);
+  } catch (error) {
+    console.error("Error getting signer status:", error);
+    throw error;
+  }
+}
+
+export async function isClaimUsed(digest: string): Promise<boolean> {
+  try {
+    return await contract.isClaimUsed(digest);
+  } catch (error) {
+    console.error("Error getting claim usage status:", error);
+    throw error;
+  }
+}
+
+export async function isTokenAllowed(token: string): Promise<boolean> {
+  try {
+    return await contract.isTokenAllowed(token);
+  } catch (error) {
+    console.error("Error getting token allowlist status:", error);
+    throw error;
+  }
+}
+
+export async function buildClaimBatch(
+  user: string,
+  vouchers: SignedClaim[],
+): Promise<BatchClaim[]> {
+  const batch = assembleBatch(user, vouchers, await getNonce(user));
+  if (batch.length === 0) {
+    throw new Error(`No voucher matches the current nonce of ${user}`);
+  }
+  return batch;
+}
+
+export async function getCumulativeClaimed(
+  user: string,
+  token: string,
+): Promise<bigint> {
+  try {
+    return await contract.getCumulativeClaimed(user, token);
+  } catch (error) {
+    console.error("Error getting claimed amount:", error);
+    throw error;
+  }
+}
+
+export async function getCumulativeClaimable(
+  user: string,
+  token: string,
+  cumulativeAmount: ethers.BigNumberish,
+): Promise<bigint> {
+  try {
+    return await contract.getCumulativeClaimable(user, token, cumulativeAmount);
+  } catch (error) {
+    console.error("Error getting claimable amount:", error);
+    throw error;
+  }
+}
+
+// The amount above which claims of the token vest, zero if vesting is off.
+export async function getVestingThreshold(token: string): Promise<bigint> {
+  try {
+    return (await contract.getVestingPolicy(token)).threshold;
+  } catch (error) {
+    console.error("Error getting vesting policy:", error);
+    throw error;
+  }
+}
+
+export async function getCampaignToken(campaignId: number): Promise<string> {
+  try {
+    return (await contract.getCampaign(campaignId)).token;
+  } catch (error) {
+    console.error("Error getting campaign:", error);
+    throw error;
+  }
+}
+
+export async function getReleasableAmount(
+  user: string,
+  claimId: number,
+): Promise<bigint> {
+  try {
+    return await contract.releasableAmount(user, claimId);
+  } catch (error) {
+    console.error("Error getting releasable amount:", error);
+    throw error;
+  }
+}
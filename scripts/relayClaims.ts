@@ -0,0 +1,105 @@
+import { ethers } from "ethers";
+import fs from "fs";
+import { FundsDistributor__factory } from "../typechain-types";
+import { describeError } from "./errors";
+import { createSigner, loadSignerConfig } from "./signers";
+import { SignedClaim } from "./voucher";
+import dotenv from "dotenv";
+dotenv.config();
+
+export interface RelayResult {
+  user: string;
+  nonce: string;
+  transactionHash?: string;
+  error?: string;
+}
+
+// Connects the relayer to the distributor with its full ABI, so that every
+// custom error of the contract is decoded by name.
+export function connectDistributor(
+  address: string,
+  relayer: ethers.ContractRunner,
+): ethers.Contract {
+  return new ethers.Contract(address, FundsDistributor__factory.abi, relayer);
+}
+
+// Submits the signed claims on behalf of their users. Each claim is simulated
+// first, so a claim that would revert is reported and skipped without paying
+// for a failed transaction. Claims are submitted in nonce order, as the
+// distributor only accepts the next nonce of each user.
+export async function relayClaims(
+  contract: ethers.Contract,
+  requests: SignedClaim[],
+): Promise<RelayResult[]> {
+  const ordered = [...requests].sort((a, b) => {
+    const difference = ethers.toBigInt(a.nonce) - ethers.toBigInt(b.nonce);
+    return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+  });
+  const results: RelayResult[] = [];
+
+  for (const request of ordered) {
+    const args = [
+      request.user,
+      request.token,
+      request.amount,
+      request.nonce,
+      request.validAfter,
+      request.validUntil,
+      request.signature,
+    ];
+    const result: RelayResult = {
+      user: request.user,
+      nonce: request.nonce.toString(),
+    };
+    try {
+      await contract.claimRewardFor.staticCall(...args);
+      const tx = await contract.claimRewardFor(...args);
+      await tx.wait();
+      result.transactionHash = tx.hash;
+    } catch (error) {
+      result.error = describeError(contract, error);
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
+async function main() {
+  const requestsFile = process.argv[2];
+  if (!requestsFile) {
+    throw new Error("Usage: ts-node scripts/relayClaims.ts <requests.json>");
+  }
+  const requests: SignedClaim[] = JSON.parse(
+    fs.readFileSync(requestsFile, "utf8"),
+  );
+
+  const provider = new ethers.JsonRpcProvider(process.env.LOCALHOST_RPC);
+  const relayer = await createSigner(
+    loadSignerConfig("RELAYER", "RELAYER_PK"),
+    provider,
+  );
+  const contract = connectDistributor(
+    process.env.DISTRIBUTOR_ADDRESS || "",
+    relayer,
+  );
+
+  for (const result of await relayClaims(contract, requests)) {
+    if (result.error) {
+      console.log(`Skipped ${result.user} #${result.nonce}: ${result.error}`);
+    } else {
+      console.log(
+        `Relayed ${result.user} #${result.nonce} in ${result.transactionHash}`,
+      );
+    }
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
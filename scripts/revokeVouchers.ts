@@ -0,0 +1,132 @@
+import { ethers } from "ethers";
+import { VoucherStore } from "./signingService";
+import { createSigner, loadSignerConfig } from "./signers";
+import dotenv from "dotenv";
+dotenv.config();
+
+const abi = [
+  "function getNonce(address user) external view returns (uint256)",
+  "function revokeVouchers(bytes32[] calldata claimHashes) external",
+  "function invalidateNonce(address user, uint256 newNonce) external",
+];
+
+export interface RevocationTargets {
+  users: string[];
+  claimHashes: string[];
+  // The highest nonce issued to a user, when given as `<address>:<nonce>`.
+  issuedNonces: Record<string, bigint>;
+}
+
+export interface RevocationResult {
+  target: string;
+  transactionHash: string;
+}
+
+// Sorts the arguments into voucher hashes (32-byte hex strings) and user
+// addresses, optionally followed by the highest nonce issued to the user as
+// `<address>:<nonce>`, so a single command can mix both.
+export function parseRevocationTargets(args: string[]): RevocationTargets {
+  const targets: RevocationTargets = {
+    users: [],
+    claimHashes: [],
+    issuedNonces: {},
+  };
+  for (const arg of args) {
+    const [address, nonce] = arg.split(":");
+    if (ethers.isHexString(arg, 32)) {
+      targets.claimHashes.push(arg.toLowerCase());
+    } else if (
+      ethers.isAddress(address) &&
+      (nonce === undefined || /^\d+$/.test(nonce))
+    ) {
+      const user = ethers.getAddress(address);
+      targets.users.push(user);
+      if (nonce !== undefined) {
+        targets.issuedNonces[user] = BigInt(nonce);
+      }
+    } else {
+      throw new Error(`Not a voucher hash or an address: ${arg}`);
+    }
+  }
+  return targets;
+}
+
+// Revokes the vouchers in a single transaction, then bumps the nonce of each
+// user past the highest nonce issued to them: the one given in the targets or
+// recorded in the store of the signing service, whichever is higher, and at
+// least their current one. Batches and the signing service issue consecutive
+// nonces, so bumping the nonce only past the current one would leave the
+// following vouchers claimable.
+//
+// Cumulative vouchers have no nonce and survive a nonce bump: they must be
+// revoked by their hash (`hashCumulativeClaim`).
+export async function revokeVouchers(
+  contract: ethers.Contract,
+  targets: RevocationTargets,
+  store?: VoucherStore,
+): Promise<RevocationResult[]> {
+  const results: RevocationResult[] = [];
+
+  if (targets.claimHashes.length > 0) {
+    const tx = await contract.revokeVouchers(targets.claimHashes);
+    await tx.wait();
+    for (const claimHash of targets.claimHashes) {
+      results.push({ target: claimHash, transactionHash: tx.hash });
+    }
+  }
+
+  for (const user of targets.users) {
+    let newNonce: bigint = (await contract.getNonce(user)) + 1n;
+    const issued = (store?.list(user) ?? []).map((voucher) =>
+      BigInt(voucher.nonce),
+    );
+    if (targets.issuedNonces[user] !== undefined) {
+      issued.push(targets.issuedNonces[user]);
+    }
+    for (const nonce of issued) {
+      if (nonce >= newNonce) {
+        newNonce = nonce + 1n;
+      }
+    }
+    const tx = await contract.invalidateNonce(user, newNonce);
+    await tx.wait();
+    results.push({ target: user, transactionHash: tx.hash });
+  }
+
+  return results;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.length === 0) {
+    throw new Error(
+      "Usage: ts-node scripts/revokeVouchers.ts <voucherHash|userAddress[:nonce]>...",
+    );
+  }
+  const targets = parseRevocationTargets(args);
+
+  const provider = new ethers.JsonRpcProvider(process.env.LOCALHOST_RPC);
+  const admin = await createSigner(
+    loadSignerConfig("ADMIN", "ADMIN_PK"),
+    provider,
+  );
+  const contract = new ethers.Contract(
+    process.env.DISTRIBUTOR_ADDRESS || "",
+    abi,
+    admin,
+  );
+
+  const store = new VoucherStore(process.env.VOUCHER_STORE || "vouchers.json");
+  for (const result of await revokeVouchers(contract, targets, store)) {
+    console.log(`Revoked ${result.target} in ${result.transactionHash}`);
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
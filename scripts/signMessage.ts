@@ -1,24 +1,169 @@
 import { ethers } from "ethers";
-import { getNonce } from "./helpers";
+import {
+  getCampaignToken,
+  getCumulativeClaimed,
+  getLatestTimestamp,
+  getNonce,
+  getVestingThreshold,
+  isSigner,
+  isTokenAllowed,
+} from "./helpers";
+import { createSigner, loadSignerConfig } from "./signers";
+import {
+  DEFAULT_TTL,
+  SignedCampaignClaim,
+  SignedClaim,
+  SignedCumulativeClaim,
+  SignedSplitClaim,
+  Share,
+  checkUnvestedAmount,
+  getDomain,
+  getValidityWindow,
+  signCampaignClaim,
+  signClaim,
+  signCumulativeClaim,
+  signSplitClaim,
+  splitAmount,
+} from "./voucher";
 import dotenv from "dotenv";
 dotenv.config();
 
-const privateKey = process.env.LOCALHOST_PK ?? "";
+const contractAddress = process.env.DISTRIBUTOR_ADDRESS || "";
+const voucherTtl = Number(process.env.VOUCHER_TTL || DEFAULT_TTL);
 
-const wallet = new ethers.Wallet(privateKey);
+// The server key, which must hold the SIGNER_ROLE on the distributor. It is
+// loaded on first use, as keystores and remote signers are async.
+let signer: Promise<ethers.Signer> | undefined;
 
-async function signMessage(
+async function getAuthorizedSigner(): Promise<ethers.Signer> {
+  signer ??= createSigner(loadSignerConfig("SIGNER", "LOCALHOST_PK"));
+  const wallet = await signer;
+  const address = await wallet.getAddress();
+  if (!(await isSigner(address))) {
+    throw new Error(`${address} is not an authorized signer`);
+  }
+  return wallet;
+}
+
+export async function signMessage(
   user: string,
+  token: string,
   amount: number,
   chainId: number,
-): Promise<string> {
+  ttl: number = voucherTtl,
+): Promise<SignedClaim> {
+  const wallet = await getAuthorizedSigner();
+  if (!(await isTokenAllowed(token))) {
+    throw new Error(`${token} is not an allowed reward token`);
+  }
   const nonce = await getNonce(user);
+  const claim = {
+    user,
+    token,
+    amount,
+    nonce,
+    ...getValidityWindow(ttl, await getLatestTimestamp()),
+  };
+  const signature = await signClaim(
+    wallet,
+    getDomain(contractAddress, chainId),
+    claim,
+  );
+
+  return { ...claim, signature };
+}
+
+export async function signCumulativeMessage(
+  user: string,
+  token: string,
+  cumulativeAmount: bigint,
+  chainId: number,
+  ttl: number = voucherTtl,
+): Promise<SignedCumulativeClaim> {
+  const wallet = await getAuthorizedSigner();
+  if (!(await isTokenAllowed(token))) {
+    throw new Error(`${token} is not an allowed reward token`);
+  }
+  const claimed = await getCumulativeClaimed(user, token);
+  if (cumulativeAmount <= claimed) {
+    throw new Error(`${user} has already claimed ${claimed} of ${token}`);
+  }
+  checkUnvestedAmount(
+    cumulativeAmount - claimed,
+    await getVestingThreshold(token),
+  );
+  const claim = {
+    user,
+    token,
+    cumulativeAmount,
+    ...getValidityWindow(ttl, await getLatestTimestamp()),
+  };
+  const signature = await signCumulativeClaim(
+    wallet,
+    getDomain(contractAddress, chainId),
+    claim,
+  );
+
+  return { ...claim, signature };
+}
 
-  const message = ethers.solidityPackedKeccak256(
-    ["address", "uint256", "uint256", "uint256"],
-    [wallet.address, amount, nonce, chainId],
+export async function signCampaignMessage(
+  user: string,
+  campaignId: number,
+  amount: bigint,
+  chainId: number,
+  ttl: number = voucherTtl,
+): Promise<SignedCampaignClaim> {
+  const wallet = await getAuthorizedSigner();
+  checkUnvestedAmount(
+    amount,
+    await getVestingThreshold(await getCampaignToken(campaignId)),
+  );
+  const nonce = await getNonce(user);
+  const claim = {
+    user,
+    campaignId,
+    amount,
+    nonce,
+    ...getValidityWindow(ttl, await getLatestTimestamp()),
+  };
+  const signature = await signCampaignClaim(
+    wallet,
+    getDomain(contractAddress, chainId),
+    claim,
+  );
+
+  return { ...claim, signature };
+}
+
+// Splits `amount` between the recipients by their shares in basis points,
+// consuming the nonce of `user`.
+export async function signSplitMessage(
+  user: string,
+  token: string,
+  amount: bigint,
+  shares: Share[],
+  chainId: number,
+  ttl: number = voucherTtl,
+): Promise<SignedSplitClaim> {
+  const wallet = await getAuthorizedSigner();
+  if (!(await isTokenAllowed(token))) {
+    throw new Error(`${token} is not an allowed reward token`);
+  }
+  checkUnvestedAmount(amount, await getVestingThreshold(token));
+  const nonce = await getNonce(user);
+  const claim = {
+    user,
+    token,
+    payouts: splitAmount(amount, shares),
+    nonce,
+    ...getValidityWindow(ttl, await getLatestTimestamp()),
+  };
+  const signature = await signSplitClaim(
+    wallet,
+    getDomain(contractAddress, chainId),
+    claim,
   );
-  const messageHashBin = ethers.getBytes(message);
 
-  return await wallet.signMessage(messageHashBin);
+  return { ...claim, signature };
 }
@@ -0,0 +1,169 @@
+import { ethers } from "ethers";
+import fs from "fs";
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+// Where the key of a signer comes from, selected with the `<PREFIX>_TYPE`
+// environment variable (see `loadSignerConfig`).
+export type SignerConfig =
+  | { type: "privateKey"; privateKey: string }
+  | { type: "keystore"; path: string; password: string }
+  | { type: "mnemonic"; mnemonic: string; path: string }
+  | { type: "remote"; url: string; address: string };
+
+function required(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+// Reads the configuration of a signer from `<PREFIX>_*` variables. Without
+// `<PREFIX>_TYPE`, the raw key of `<PREFIX>_PRIVATE_KEY` is used, falling back
+// to the legacy variable that held it so far.
+export function loadSignerConfig(
+  prefix: string,
+  legacyKeyVariable: string,
+  env: NodeJS.ProcessEnv = process.env,
+): SignerConfig {
+  const type = env[`${prefix}_TYPE`] || "privateKey";
+  switch (type) {
+    case "privateKey":
+      return {
+        type,
+        privateKey:
+          env[`${prefix}_PRIVATE_KEY`] || required(env, legacyKeyVariable),
+      };
+    case "keystore":
+      return {
+        type,
+        path: required(env, `${prefix}_KEYSTORE`),
+        password: required(env, `${prefix}_KEYSTORE_PASSWORD`),
+      };
+    case "mnemonic":
+      return {
+        type,
+        mnemonic: required(env, `${prefix}_MNEMONIC`),
+        path: env[`${prefix}_DERIVATION_PATH`] || DEFAULT_DERIVATION_PATH,
+      };
+    case "remote":
+      return {
+        type,
+        url: required(env, `${prefix}_REMOTE_URL`),
+        address: ethers.getAddress(required(env, `${prefix}_ADDRESS`)),
+      };
+    default:
+      throw new Error(`Unknown signer type: ${type}`);
+  }
+}
+
+export async function createSigner(
+  config: SignerConfig,
+  provider: ethers.Provider | null = null,
+): Promise<ethers.Signer> {
+  switch (config.type) {
+    case "privateKey":
+      return new ethers.Wallet(config.privateKey, provider);
+    case "keystore": {
+      const json = fs.readFileSync(config.path, "utf8");
+      const wallet = await ethers.Wallet.fromEncryptedJson(
+        json,
+        config.password,
+      );
+      return wallet.connect(provider);
+    }
+    case "mnemonic":
+      return ethers.HDNodeWallet.fromPhrase(
+        config.mnemonic,
+        undefined,
+        config.path,
+      ).connect(provider);
+    case "remote":
+      return new RemoteSigner(config.url, config.address, provider);
+  }
+}
+
+// A signer whose key is held by a remote service. Requests are JSON-RPC 2.0
+// calls of `eth_sign` (address, hex message), `eth_signTypedData_v4`
+// (address, typed data JSON) and `eth_signTransaction` (unsigned serialized
+// transaction), each answered with the signature or the signed transaction.
+export class RemoteSigner extends ethers.AbstractSigner {
+  private requestId = 0;
+
+  constructor(
+    readonly url: string,
+    readonly address: string,
+    provider: ethers.Provider | null = null,
+  ) {
+    super(provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data =
+      typeof message === "string"
+        ? ethers.hexlify(ethers.toUtf8Bytes(message))
+        : ethers.hexlify(message);
+    return await this.rpc("eth_sign", [this.address, data]);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>,
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    return await this.rpc("eth_signTypedData_v4", [
+      this.address,
+      JSON.stringify(payload),
+    ]);
+  }
+
+  async signTransaction(request: ethers.TransactionRequest): Promise<string> {
+    const tx = ethers.copyRequest(request);
+    const { to, from } = await ethers.resolveProperties({
+      to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? ethers.resolveAddress(tx.from, this.provider) : undefined,
+    });
+    if (to != null) {
+      tx.to = to;
+    }
+    if (from != null) {
+      if (ethers.getAddress(from) !== ethers.getAddress(this.address)) {
+        throw new Error(`Transaction from ${from} is not from the signer`);
+      }
+      delete tx.from;
+    }
+    const unsigned = ethers.Transaction.from(tx as ethers.TransactionLike);
+    return await this.rpc("eth_signTransaction", [unsigned.unsignedSerialized]);
+  }
+
+  private async rpc(method: string, params: unknown[]): Promise<string> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: ++this.requestId,
+        method,
+        params,
+      }),
+    });
+    const body = (await response.json()) as {
+      result?: string;
+      error?: { message: string };
+    };
+    if (body.error || body.result === undefined) {
+      throw new Error(`Remote signer error: ${body.error?.message}`);
+    }
+    return body.result;
+  }
+}
@@ -0,0 +1,317 @@
+import { ethers } from "ethers";
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import { getNonce as getOnChainNonce, isSigner } from "./helpers";
+import { createSigner, loadSignerConfig } from "./signers";
+import {
+  DEFAULT_TTL,
+  SignedClaim,
+  getDomain,
+  getValidityWindow,
+  signClaim,
+} from "./voucher";
+import dotenv from "dotenv";
+dotenv.config();
+
+export const DEFAULT_PORT = 3000;
+export const DEFAULT_HOST = "127.0.0.1";
+export const MAX_BODY_SIZE = 16 * 1024;
+
+export interface IssuancePolicy {
+  // The largest amount of a single voucher, unlimited if undefined.
+  maxAmount?: bigint;
+  // The users vouchers can be issued to, anyone if undefined.
+  allowedUsers?: string[];
+}
+
+export interface SigningServiceOptions {
+  signer: ethers.Signer;
+  distributorAddress: string;
+  chainId: number;
+  token: string;
+  policy?: IssuancePolicy;
+  store?: VoucherStore;
+  ttl?: number;
+  getNonce?: (user: string) => Promise<bigint>;
+  // The current time the validity windows start at, the timestamp of the
+  // latest block by default, as the distributor checks them against it.
+  getTime?: () => Promise<number>;
+  // The shared secret the backend sends as `Authorization: Bearer <token>`.
+  authToken: string;
+}
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// Keeps the issued vouchers, in memory and optionally in a JSON file, so that
+// nonces handed out but not claimed yet are not issued twice.
+export class VoucherStore {
+  private readonly vouchers: SignedClaim[];
+
+  constructor(private readonly file?: string) {
+    this.vouchers =
+      file && fs.existsSync(file)
+        ? JSON.parse(fs.readFileSync(file, "utf8"))
+        : [];
+  }
+
+  list(user: string): SignedClaim[] {
+    const address = ethers.getAddress(user);
+    return this.vouchers.filter(
+      (voucher) => ethers.getAddress(voucher.user) === address,
+    );
+  }
+
+  add(voucher: SignedClaim) {
+    this.vouchers.push(voucher);
+    if (this.file) {
+      fs.writeFileSync(this.file, JSON.stringify(this.vouchers, null, 2));
+    }
+  }
+}
+
+// The next nonce of a user is the lowest one from the on-chain nonce upwards
+// that has no live voucher. Nonces of expired vouchers are reissued, as the
+// distributor only accepts them in sequence and a gap would block the user.
+export function getNextNonce(
+  vouchers: SignedClaim[],
+  onChainNonce: bigint,
+  now: number,
+): bigint {
+  const live = new Set(
+    vouchers
+      .filter((voucher) => Number(voucher.validUntil) >= now)
+      .map((voucher) => ethers.toBigInt(voucher.nonce)),
+  );
+  let nonce = onChainNonce;
+  while (live.has(nonce)) {
+    nonce++;
+  }
+  return nonce;
+}
+
+export function createVoucherIssuer(options: SigningServiceOptions) {
+  const store = options.store ?? new VoucherStore();
+  const policy = options.policy ?? {};
+  const allowedUsers = policy.allowedUsers?.map((user) =>
+    ethers.getAddress(user),
+  );
+  const getNonce = options.getNonce ?? getOnChainNonce;
+  const getTime = options.getTime ?? (() => getLatestTimestamp(options.signer));
+  const domain = getDomain(options.distributorAddress, options.chainId);
+  // The pending issuance of each user, so that concurrent requests for the
+  // same user are handled one after the other and get distinct nonces.
+  const queues = new Map<string, Promise<unknown>>();
+
+  async function issue(user: string, amount: bigint): Promise<SignedClaim> {
+    if (amount <= 0n) {
+      throw new HttpError(400, "The amount must be positive");
+    }
+    if (policy.maxAmount !== undefined && amount > policy.maxAmount) {
+      throw new HttpError(403, `The amount exceeds ${policy.maxAmount}`);
+    }
+    if (allowedUsers && !allowedUsers.includes(user)) {
+      throw new HttpError(403, `${user} is not allowed to receive vouchers`);
+    }
+
+    const window = getValidityWindow(
+      options.ttl ?? DEFAULT_TTL,
+      await getTime(),
+    );
+    const nonce = getNextNonce(
+      store.list(user),
+      await getNonce(user),
+      window.validAfter,
+    );
+    const claim = {
+      user,
+      token: options.token,
+      amount: amount.toString(),
+      nonce: nonce.toString(),
+      ...window,
+    };
+    const voucher = {
+      ...claim,
+      signature: await signClaim(options.signer, domain, claim),
+    };
+    store.add(voucher);
+    return voucher;
+  }
+
+  return async (user: string, amount: bigint): Promise<SignedClaim> => {
+    if (!ethers.isAddress(user)) {
+      throw new HttpError(400, `Invalid user address: ${user}`);
+    }
+    const address = ethers.getAddress(user);
+    const previous = queues.get(address) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => issue(address, amount));
+    queues.set(address, next);
+    try {
+      return await next;
+    } finally {
+      if (queues.get(address) === next) {
+        queues.delete(address);
+      }
+    }
+  };
+}
+
+async function getLatestTimestamp(signer: ethers.Signer): Promise<number> {
+  const block = await signer.provider?.getBlock("latest");
+  if (!block) {
+    throw new Error("The signer is not connected to a provider");
+  }
+  return block.timestamp;
+}
+
+// Reads a body of up to `MAX_BODY_SIZE` bytes. The rest of a larger body is
+// drained and discarded, so that the error can still be sent.
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new HttpError(413, `The body exceeds ${MAX_BODY_SIZE} bytes`));
+      } else {
+        body += chunk;
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+function isAuthorized(request: http.IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(request.headers.authorization ?? "");
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+}
+
+function parseAmount(value: unknown): bigint {
+  try {
+    return ethers.toBigInt(value as ethers.BigNumberish);
+  } catch {
+    throw new HttpError(400, `Invalid amount: ${value}`);
+  }
+}
+
+// Serves `POST /vouchers` with a JSON body of `{ "user", "amount" }` and
+// responds with the signed voucher along with the arguments of `claimReward`.
+// Requests must carry the shared secret of the backend.
+export function createSigningService(
+  options: SigningServiceOptions,
+): http.Server {
+  if (!options.authToken) {
+    throw new Error("The signing service requires an authentication token");
+  }
+  const issueVoucher = createVoucherIssuer(options);
+
+  return http.createServer(async (request, response) => {
+    const send = (status: number, body: object) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.method !== "POST" || request.url !== "/vouchers") {
+      send(404, { error: "Not found" });
+      return;
+    }
+    if (!isAuthorized(request, options.authToken)) {
+      send(401, { error: "Unauthorized" });
+      return;
+    }
+    try {
+      const raw = await readBody(request);
+      let body: { user?: string; amount?: unknown };
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        throw new HttpError(400, "The body must be JSON");
+      }
+      const voucher = await issueVoucher(
+        String(body.user),
+        parseAmount(body.amount),
+      );
+      send(201, {
+        voucher,
+        claimRewardArgs: [
+          voucher.token,
+          voucher.amount,
+          voucher.nonce,
+          voucher.validAfter,
+          voucher.validUntil,
+          voucher.signature,
+        ],
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(error.status, { error: error.message });
+      } else {
+        console.error("Error issuing voucher:", error);
+        send(500, { error: "Internal error" });
+      }
+    }
+  });
+}
+
+async function main() {
+  const provider = new ethers.JsonRpcProvider(process.env.LOCALHOST_RPC);
+  const signer = await createSigner(
+    loadSignerConfig("SIGNER", "LOCALHOST_PK"),
+    provider,
+  );
+  const signerAddress = await signer.getAddress();
+  const distributorAddress = process.env.DISTRIBUTOR_ADDRESS || "";
+  if (!(await isSigner(signerAddress))) {
+    throw new Error(`${signerAddress} is not an authorized signer`);
+  }
+  const distributor = new ethers.Contract(
+    distributorAddress,
+    ["function token() external view returns (address)"],
+    provider,
+  );
+
+  const server = createSigningService({
+    signer,
+    distributorAddress,
+    chainId: Number((await provider.getNetwork()).chainId),
+    token: process.env.VOUCHER_TOKEN || (await distributor.token()),
+    ttl: Number(process.env.VOUCHER_TTL || DEFAULT_TTL),
+    store: new VoucherStore(process.env.VOUCHER_STORE || "vouchers.json"),
+    authToken: process.env.SIGNING_SERVICE_TOKEN || "",
+    policy: {
+      maxAmount: process.env.MAX_VOUCHER_AMOUNT
+        ? BigInt(process.env.MAX_VOUCHER_AMOUNT)
+        : undefined,
+      allowedUsers: process.env.VOUCHER_ALLOWLIST
+        ? process.env.VOUCHER_ALLOWLIST.split(",")
+        : undefined,
+    },
+  });
+  const port = Number(process.env.SIGNING_SERVICE_PORT || DEFAULT_PORT);
+  const host = process.env.SIGNING_SERVICE_HOST || DEFAULT_HOST;
+  server.listen(port, host, () =>
+    console.log(`Signing service listening on ${host}:${port}`),
+  );
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
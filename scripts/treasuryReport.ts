@@ -0,0 +1,194 @@
+import { ethers } from "ethers";
+import { getLogsInChunks } from "./getEvents";
+import { NATIVE_TOKEN } from "./voucher";
+import dotenv from "dotenv";
+dotenv.config();
+
+const abi = [
+  "function token() external view returns (address)",
+  "function totalDistributed(address token) external view returns (uint256)",
+  "function vestingReserve(address token) external view returns (uint256)",
+  "function availableBalance(address token) external view returns (uint256)",
+  "function campaignCount() external view returns (uint256)",
+  "function getCampaign(uint256 campaignId) external view returns (tuple(address token, uint64 start, uint64 end, bool active, uint256 budget, uint256 spent))",
+  "event RewardPaid(address indexed user, address indexed token, uint256 amount)",
+];
+const erc20Abi = [
+  "function balanceOf(address account) external view returns (uint256)",
+];
+
+const SECONDS_PER_DAY = 86_400;
+export const DEFAULT_LOOKBACK_DAYS = 30;
+
+export interface TreasuryReport {
+  token: string;
+  balance: bigint;
+  reserved: bigint;
+  available: bigint;
+  distributed: bigint;
+  dailyOutflow: bigint;
+  // Days until the available balance runs out at the recent outflow, null
+  // when nothing was paid out during the lookback period.
+  runwayDays: number | null;
+}
+
+export interface CampaignReport {
+  campaignId: number;
+  token: string;
+  budget: bigint;
+  spent: bigint;
+  remaining: bigint;
+  start: number;
+  end: number;
+  // Whether the campaign can be claimed at `now`: not paused and within its
+  // schedule.
+  live: boolean;
+}
+
+// Reports the budget consumption of every campaign, as of `now`.
+export async function getCampaignReports(
+  contract: ethers.Contract,
+  now: number = Math.floor(Date.now() / 1000),
+): Promise<CampaignReport[]> {
+  const count = Number(await contract.campaignCount());
+  const reports: CampaignReport[] = [];
+  for (let campaignId = 0; campaignId < count; campaignId++) {
+    const campaign = await contract.getCampaign(campaignId);
+    const start = Number(campaign.start);
+    const end = Number(campaign.end);
+    const budget: bigint = campaign.budget;
+    const spent: bigint = campaign.spent;
+    reports.push({
+      campaignId,
+      token: campaign.token,
+      budget,
+      spent,
+      remaining: budget - spent,
+      start,
+      end,
+      live: campaign.active && start <= now && now <= end,
+    });
+  }
+  return reports;
+}
+
+// Finds the first block mined at or after `timestamp`, searching the blocks up
+// to `latestBlock`, which must be mined at or after it.
+export async function findFirstBlockAt(
+  provider: ethers.Provider,
+  timestamp: number,
+  latestBlock: number,
+): Promise<number> {
+  let low = 0;
+  let high = latestBlock;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const block = await provider.getBlock(middle);
+    if ((block?.timestamp ?? 0) >= timestamp) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+// Reports the treasury of a token. The outflow is averaged over the rewards
+// paid during the last `lookbackDays` days, measured from the latest block.
+// Only the blocks of the lookback period are scanned, in chunks.
+export async function getTreasuryReport(
+  contract: ethers.Contract,
+  token: string,
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS,
+): Promise<TreasuryReport> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("The contract is not connected to a provider");
+  }
+  const address = await contract.getAddress();
+  const balance =
+    token === NATIVE_TOKEN
+      ? await provider.getBalance(address)
+      : await new ethers.Contract(token, erc20Abi, provider).balanceOf(address);
+
+  const latestBlock = await provider.getBlock("latest");
+  if (!latestBlock) {
+    throw new Error("The latest block is unavailable");
+  }
+  const since = latestBlock.timestamp - lookbackDays * SECONDS_PER_DAY;
+  const logs = await getLogsInChunks(
+    provider,
+    {
+      address,
+      topics: await contract.filters.RewardPaid(null, token).getTopicFilter(),
+    },
+    await findFirstBlockAt(provider, since, latestBlock.number),
+    latestBlock.number,
+  );
+  let recentOutflow = 0n;
+  for (const log of logs) {
+    recentOutflow += contract.interface.parseLog(log)!.args.amount;
+  }
+
+  const available: bigint = await contract.availableBalance(token);
+  const dailyOutflow = recentOutflow / BigInt(lookbackDays);
+  return {
+    token,
+    balance,
+    reserved: await contract.vestingReserve(token),
+    available,
+    distributed: await contract.totalDistributed(token),
+    dailyOutflow,
+    runwayDays:
+      dailyOutflow === 0n
+        ? null
+        : Number((available * 100n) / dailyOutflow) / 100,
+  };
+}
+
+async function main() {
+  const provider = new ethers.JsonRpcProvider(process.env.LOCALHOST_RPC);
+  const contract = new ethers.Contract(
+    process.env.DISTRIBUTOR_ADDRESS || "",
+    abi,
+    provider,
+  );
+  const lookbackDays = Number(
+    process.env.REPORT_LOOKBACK_DAYS || DEFAULT_LOOKBACK_DAYS,
+  );
+  const args = process.argv.slice(2);
+  const tokens = args.length > 0 ? args : [await contract.token()];
+
+  for (const token of tokens) {
+    const report = await getTreasuryReport(contract, token, lookbackDays);
+    console.log(`Token ${report.token}`);
+    console.log(`  Balance:     ${report.balance}`);
+    console.log(`  Reserved:    ${report.reserved}`);
+    console.log(`  Available:   ${report.available}`);
+    console.log(`  Distributed: ${report.distributed}`);
+    console.log(
+      `  Outflow:     ${report.dailyOutflow} per day over ${lookbackDays} days`,
+    );
+    console.log(
+      `  Runway:      ${report.runwayDays === null ? "unlimited" : `${report.runwayDays} days`}`,
+    );
+  }
+
+  for (const campaign of await getCampaignReports(contract)) {
+    console.log(
+      `Campaign ${campaign.campaignId} (${campaign.live ? "live" : "not live"}) in ${campaign.token}`,
+    );
+    console.log(`  Budget:      ${campaign.budget}`);
+    console.log(`  Spent:       ${campaign.spent}`);
+    console.log(`  Remaining:   ${campaign.remaining}`);
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
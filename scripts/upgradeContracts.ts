@@ -0,0 +1,54 @@
+import { ethers, network } from "hardhat";
+import {
+  getConfigPath,
+  loadDeploymentConfig,
+  upgradeDistributor,
+} from "./deployment";
+import { createSigner, loadSignerConfig } from "./signers";
+
+async function main() {
+  const upgrader = await createSigner(
+    loadSignerConfig("UPGRADER", "LOCALHOST_PK"),
+    ethers.provider,
+  );
+  const config = loadDeploymentConfig(getConfigPath(network.name));
+
+  console.log(
+    `Upgrading the FundsDistributor at ${config.distributor} with the account:`,
+    await upgrader.getAddress(),
+  );
+
+  const result = await upgradeDistributor(
+    upgrader,
+    config,
+    process.env.UPGRADE_CONTRACT || "FundsDistributor",
+  );
+  const formatTime = (timestamp: bigint) =>
+    new Date(Number(timestamp) * 1000).toISOString();
+  switch (result.status) {
+    case "scheduled":
+      console.log(
+        `Scheduled the upgrade to ${result.implementation} as operation ${result.operationId}, run again from ${formatTime(result.readyAt)} to execute it`,
+      );
+      break;
+    case "pending":
+      console.log(
+        `The upgrade to ${result.implementation} (operation ${result.operationId}) can only be executed from ${formatTime(result.readyAt)}`,
+      );
+      break;
+    case "upgraded":
+      console.log("Upgraded to:", result.implementation);
+      if (result.reinitializers.length > 0) {
+        console.log("Called:", result.reinitializers.join(", "));
+      }
+      console.log("Token, nonces and roles are preserved");
+      break;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,331 @@
+import { ethers } from "ethers";
+
+// Must match the values passed to `__EIP712_init` in FundsDistributor.
+export const DOMAIN_NAME = "FundsDistributor";
+export const DOMAIN_VERSION = "1";
+
+// Pseudo-address designating native currency as the reward token.
+export const NATIVE_TOKEN = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+export const CLAIM_TYPES = {
+  Claim: [
+    { name: "user", type: "address" },
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validUntil", type: "uint256" },
+  ],
+};
+
+export const CUMULATIVE_CLAIM_TYPES = {
+  CumulativeClaim: [
+    { name: "user", type: "address" },
+    { name: "token", type: "address" },
+    { name: "cumulativeAmount", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validUntil", type: "uint256" },
+  ],
+};
+
+export const CAMPAIGN_CLAIM_TYPES = {
+  CampaignClaim: [
+    { name: "user", type: "address" },
+    { name: "campaignId", type: "uint256" },
+    { name: "amount", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validUntil", type: "uint256" },
+  ],
+};
+
+export const SPLIT_CLAIM_TYPES = {
+  SplitClaim: [
+    { name: "user", type: "address" },
+    { name: "token", type: "address" },
+    { name: "payouts", type: "Payout[]" },
+    { name: "nonce", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validUntil", type: "uint256" },
+  ],
+  Payout: [
+    { name: "recipient", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+// Must match `FundsDistributor.MAX_SPLIT_RECIPIENTS`.
+export const MAX_SPLIT_RECIPIENTS = 10;
+export const BASIS_POINTS = 10_000;
+
+// Vouchers issued without an explicit TTL stay claimable for one day.
+export const DEFAULT_TTL = 24 * 60 * 60;
+
+export interface Claim {
+  user: string;
+  token: string;
+  amount: ethers.BigNumberish;
+  nonce: ethers.BigNumberish;
+  validAfter: ethers.BigNumberish;
+  validUntil: ethers.BigNumberish;
+}
+
+export interface SignedClaim extends Claim {
+  signature: string;
+}
+
+// Attests the lifetime entitlement of a user in a token, so that the latest
+// voucher supersedes all the previous ones.
+export interface CumulativeClaim {
+  user: string;
+  token: string;
+  cumulativeAmount: ethers.BigNumberish;
+  validAfter: ethers.BigNumberish;
+  validUntil: ethers.BigNumberish;
+}
+
+export interface SignedCumulativeClaim extends CumulativeClaim {
+  signature: string;
+}
+
+// Pays out of the budget of a campaign, in the token of the campaign.
+export interface CampaignClaim {
+  user: string;
+  campaignId: ethers.BigNumberish;
+  amount: ethers.BigNumberish;
+  nonce: ethers.BigNumberish;
+  validAfter: ethers.BigNumberish;
+  validUntil: ethers.BigNumberish;
+}
+
+export interface SignedCampaignClaim extends CampaignClaim {
+  signature: string;
+}
+
+export interface Payout {
+  recipient: string;
+  amount: ethers.BigNumberish;
+}
+
+// Pays one reward to several recipients, such as the user and a referrer. The
+// nonce is the one of the user.
+export interface SplitClaim {
+  user: string;
+  token: string;
+  payouts: Payout[];
+  nonce: ethers.BigNumberish;
+  validAfter: ethers.BigNumberish;
+  validUntil: ethers.BigNumberish;
+}
+
+export interface SignedSplitClaim extends SplitClaim {
+  signature: string;
+}
+
+// The part of a split reward going to a recipient, in basis points.
+export interface Share {
+  recipient: string;
+  bps: number;
+}
+
+export function getValidityWindow(
+  ttl: number = DEFAULT_TTL,
+  now: number = Math.floor(Date.now() / 1000),
+): { validAfter: number; validUntil: number } {
+  if (!Number.isInteger(ttl) || ttl <= 0) {
+    throw new Error(`Invalid voucher TTL: ${ttl}`);
+  }
+  return { validAfter: now, validUntil: now + ttl };
+}
+
+export function getDomain(
+  verifyingContract: string,
+  chainId: ethers.BigNumberish,
+): ethers.TypedDataDomain {
+  return {
+    name: DOMAIN_NAME,
+    version: DOMAIN_VERSION,
+    chainId,
+    verifyingContract,
+  };
+}
+
+export function hashClaim(
+  domain: ethers.TypedDataDomain,
+  claim: Claim,
+): string {
+  return ethers.TypedDataEncoder.hash(domain, CLAIM_TYPES, claim);
+}
+
+export async function signClaim(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  claim: Claim,
+): Promise<string> {
+  return await signer.signTypedData(domain, CLAIM_TYPES, claim);
+}
+
+export function hashCumulativeClaim(
+  domain: ethers.TypedDataDomain,
+  claim: CumulativeClaim,
+): string {
+  return ethers.TypedDataEncoder.hash(domain, CUMULATIVE_CLAIM_TYPES, claim);
+}
+
+export async function signCumulativeClaim(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  claim: CumulativeClaim,
+): Promise<string> {
+  return await signer.signTypedData(domain, CUMULATIVE_CLAIM_TYPES, claim);
+}
+
+export function hashCampaignClaim(
+  domain: ethers.TypedDataDomain,
+  claim: CampaignClaim,
+): string {
+  return ethers.TypedDataEncoder.hash(domain, CAMPAIGN_CLAIM_TYPES, claim);
+}
+
+export async function signCampaignClaim(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  claim: CampaignClaim,
+): Promise<string> {
+  return await signer.signTypedData(domain, CAMPAIGN_CLAIM_TYPES, claim);
+}
+
+// Only `claimReward`, `claimRewardFor` and `claimRewards` vest the amounts
+// above the vesting threshold of their token: cumulative, Merkle, campaign and
+// split claims above it revert. Throws if such a payout is above the
+// threshold, zero meaning vesting is disabled, rather than issue a voucher or
+// leaf that cannot be claimed.
+export function checkUnvestedAmount(
+  amount: bigint,
+  threshold: bigint,
+  payout: string = "The payout",
+) {
+  if (threshold !== 0n && amount > threshold) {
+    throw new Error(
+      `${payout} of ${amount} is above the vesting threshold of ${threshold}`,
+    );
+  }
+}
+
+// Checks the payouts as `claimSplitReward` does and returns their total.
+export function checkPayouts(payouts: Payout[]): bigint {
+  if (payouts.length === 0 || payouts.length > MAX_SPLIT_RECIPIENTS) {
+    throw new Error(
+      `A split must have between 1 and ${MAX_SPLIT_RECIPIENTS} recipients, got ${payouts.length}`,
+    );
+  }
+  const recipients = new Set<string>();
+  let total = 0n;
+  for (const payout of payouts) {
+    const recipient = ethers.getAddress(payout.recipient);
+    if (recipient === ethers.ZeroAddress) {
+      throw new Error("A split cannot pay the zero address");
+    }
+    if (recipients.has(recipient)) {
+      throw new Error(`Duplicate recipient ${recipient}`);
+    }
+    const amount = ethers.toBigInt(payout.amount);
+    if (amount <= 0n) {
+      throw new Error(`Invalid amount ${amount} for ${recipient}`);
+    }
+    recipients.add(recipient);
+    total += amount;
+  }
+  return total;
+}
+
+// Splits `amount` between the recipients in proportion to their shares, which
+// must add up to BASIS_POINTS. Each share is rounded down and the remainder
+// goes to the first recipient, so the payouts always add up to `amount`.
+export function splitAmount(
+  amount: ethers.BigNumberish,
+  shares: Share[],
+): Payout[] {
+  const total = ethers.toBigInt(amount);
+  let bps = 0;
+  for (const share of shares) {
+    if (!Number.isInteger(share.bps) || share.bps <= 0) {
+      throw new Error(`Invalid share ${share.bps} for ${share.recipient}`);
+    }
+    bps += share.bps;
+  }
+  if (bps !== BASIS_POINTS) {
+    throw new Error(
+      `Shares add up to ${bps} basis points, not ${BASIS_POINTS}`,
+    );
+  }
+
+  const payouts = shares.map((share) => ({
+    recipient: share.recipient,
+    amount: (total * BigInt(share.bps)) / BigInt(BASIS_POINTS),
+  }));
+  const paid = payouts.reduce((sum, payout) => sum + payout.amount, 0n);
+  payouts[0].amount += total - paid;
+  checkPayouts(payouts);
+  return payouts;
+}
+
+export function hashSplitClaim(
+  domain: ethers.TypedDataDomain,
+  claim: SplitClaim,
+): string {
+  return ethers.TypedDataEncoder.hash(domain, SPLIT_CLAIM_TYPES, claim);
+}
+
+// Refuses to sign payouts the contract would reject.
+export async function signSplitClaim(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  claim: SplitClaim,
+): Promise<string> {
+  checkPayouts(claim.payouts);
+  return await signer.signTypedData(domain, SPLIT_CLAIM_TYPES, claim);
+}
+
+// The shape of `FundsDistributor.Claim` accepted by `claimRewards`.
+export interface BatchClaim {
+  token: string;
+  amount: ethers.BigNumberish;
+  nonce: ethers.BigNumberish;
+  validAfter: ethers.BigNumberish;
+  validUntil: ethers.BigNumberish;
+  signature: string;
+}
+
+// Orders the vouchers of a user into a batch of consecutive nonces starting
+// at the current one. Vouchers below the current nonce are already used and
+// vouchers after the first gap cannot be claimed yet, so both are left out.
+export function assembleBatch(
+  user: string,
+  vouchers: SignedClaim[],
+  currentNonce: ethers.BigNumberish,
+): BatchClaim[] {
+  const byNonce = new Map<bigint, SignedClaim>();
+  for (const voucher of vouchers) {
+    if (ethers.getAddress(voucher.user) !== ethers.getAddress(user)) {
+      throw new Error(`Voucher with nonce ${voucher.nonce} is not for ${user}`);
+    }
+    const nonce = ethers.toBigInt(voucher.nonce);
+    if (byNonce.has(nonce)) {
+      throw new Error(`Duplicate vouchers with nonce ${nonce}`);
+    }
+    byNonce.set(nonce, voucher);
+  }
+
+  const batch: BatchClaim[] = [];
+  for (
+    let nonce = ethers.toBigInt(currentNonce);
+    byNonce.has(nonce);
+    nonce++
+  ) {
+    const { token, amount, validAfter, validUntil, signature } =
+      byNonce.get(nonce)!;
+    batch.push({ token, amount, nonce, validAfter, validUntil, signature });
+  }
+  return batch;
+}
@@ -0,0 +1,275 @@
+import { ethers } from "ethers";
+import {
+  FundsDistributor,
+  FundsDistributor__factory,
+} from "../typechain-types";
+import { RewardPaidEvent } from "../typechain-types/contracts/FundsDistributor";
+import { TypedListener } from "../typechain-types/common";
+import {
+  DEFAULT_TTL,
+  getDomain,
+  getValidityWindow,
+  hashClaim,
+  signClaim,
+} from "../scripts/voucher";
+import { toDistributorError } from "./errors";
+import { ClaimContext, ClaimStatus, recoverVoucherSigner } from "./preview";
+
+// A signed voucher, with every number as a `bigint`. Use `serializeVoucher` to
+// turn it into JSON.
+export interface Voucher {
+  user: string;
+  token: string;
+  amount: bigint;
+  nonce: bigint;
+  validAfter: bigint;
+  validUntil: bigint;
+  signature: string;
+}
+
+export interface VoucherRequest {
+  user: string;
+  amount: bigint;
+  // The default token of the distributor if omitted.
+  token?: string;
+  // The next nonce of the user if omitted.
+  nonce?: bigint;
+  // How long the voucher stays valid, in seconds.
+  ttl?: number;
+}
+
+export interface RewardPaid {
+  user: string;
+  token: string;
+  amount: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export function serializeVoucher(voucher: Voucher): Record<string, string> {
+  return {
+    user: voucher.user,
+    token: voucher.token,
+    amount: voucher.amount.toString(),
+    nonce: voucher.nonce.toString(),
+    validAfter: voucher.validAfter.toString(),
+    validUntil: voucher.validUntil.toString(),
+    signature: voucher.signature,
+  };
+}
+
+export function parseVoucher(json: Record<string, unknown>): Voucher {
+  return {
+    user: ethers.getAddress(String(json.user)),
+    token: ethers.getAddress(String(json.token)),
+    amount: ethers.toBigInt(json.amount as ethers.BigNumberish),
+    nonce: ethers.toBigInt(json.nonce as ethers.BigNumberish),
+    validAfter: ethers.toBigInt(json.validAfter as ethers.BigNumberish),
+    validUntil: ethers.toBigInt(json.validUntil as ethers.BigNumberish),
+    signature: ethers.hexlify(String(json.signature)),
+  };
+}
+
+// Typed access to a deployed distributor. Reverts are thrown as the
+// `FundsDistributorError` subclass of their custom error.
+export class FundsDistributorClient {
+  readonly contract: FundsDistributor;
+  private domain?: Promise<ethers.TypedDataDomain>;
+
+  constructor(
+    readonly address: string,
+    runner: ethers.ContractRunner,
+  ) {
+    this.contract = FundsDistributor__factory.connect(address, runner);
+  }
+
+  connect(runner: ethers.ContractRunner): FundsDistributorClient {
+    return new FundsDistributorClient(this.address, runner);
+  }
+
+  // The EIP-712 domain of the vouchers, bound to the chain of the runner.
+  getDomain(): Promise<ethers.TypedDataDomain> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("The client is not connected to a provider");
+    }
+    this.domain ??= provider
+      .getNetwork()
+      .then(({ chainId }) => getDomain(this.address, chainId));
+    return this.domain;
+  }
+
+  async getNonce(user: string): Promise<bigint> {
+    return await this.call(() => this.contract.getNonce(user));
+  }
+
+  // Signs a voucher with `signer`, which must hold the SIGNER_ROLE for the
+  // voucher to be claimable. The voucher is valid from the timestamp of the
+  // latest block, which the distributor checks it against.
+  async createVoucher(
+    signer: ethers.Signer,
+    request: VoucherRequest,
+  ): Promise<Voucher> {
+    const block = await this.contract.runner!.provider!.getBlock("latest");
+    const window = getValidityWindow(
+      request.ttl ?? DEFAULT_TTL,
+      block!.timestamp,
+    );
+    const claim = {
+      user: ethers.getAddress(request.user),
+      token: request.token ?? (await this.call(() => this.contract.token())),
+      amount: request.amount,
+      nonce: request.nonce ?? (await this.getNonce(request.user)),
+      validAfter: BigInt(window.validAfter),
+      validUntil: BigInt(window.validUntil),
+    };
+    return {
+      ...claim,
+      signature: await signClaim(signer, await this.getDomain(), claim),
+    };
+  }
+
+  // Whether the voucher is signed by an authorized signer of the distributor.
+  async verifyVoucher(voucher: Voucher): Promise<boolean> {
+    const { chainId } = await this.getDomain();
+    return await this.call(() =>
+      this.contract.verifySignature(
+        voucher.user,
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        chainId!,
+        voucher.signature,
+      ),
+    );
+  }
+
+  async isUsed(voucher: Voucher): Promise<boolean> {
+    const digest = hashClaim(await this.getDomain(), voucher);
+    return await this.call(() => this.contract.isClaimUsed(digest));
+  }
+
+  // Asks the distributor whether the voucher would be claimed successfully
+  // now. `chainId` is the chain the voucher was signed for, by default the one
+  // of the client.
+  async previewClaim(voucher: Voucher, chainId?: bigint): Promise<ClaimStatus> {
+    const domain = await this.getDomain();
+    const status = await this.call(() =>
+      this.contract.previewClaim(
+        voucher.user,
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        chainId ?? domain.chainId!,
+        voucher.signature,
+      ),
+    );
+    return Number(status) as ClaimStatus;
+  }
+
+  // Reads the state `previewClaim` of `sdk/preview` checks a voucher against.
+  // Only the signer of the voucher is looked up, as signers cannot be listed.
+  async getClaimContext(voucher: Voucher): Promise<ClaimContext> {
+    const { chainId } = await this.getDomain();
+    const digest = hashClaim(await this.getDomain(), voucher);
+    const signer = recoverVoucherSigner(voucher, this.address, chainId!);
+    const [block, limits, policy] = await Promise.all([
+      this.contract.runner!.provider!.getBlock("latest"),
+      this.contract.getRateLimits(voucher.token),
+      this.contract.getVestingPolicy(voucher.token),
+    ]);
+    return {
+      chainId: ethers.toBigInt(chainId!),
+      distributor: this.address,
+      timestamp: BigInt(block!.timestamp),
+      paused: await this.contract.paused(),
+      tokenAllowed: await this.contract.isTokenAllowed(voucher.token),
+      nonce: await this.contract.getNonce(voucher.user),
+      used:
+        (await this.contract.isClaimUsed(digest)) ||
+        (await this.contract.getSignatureUsedStatus(voucher.signature)),
+      revoked: await this.contract.isClaimRevoked(digest),
+      signers:
+        signer !== null && (await this.contract.isSigner(signer))
+          ? [signer]
+          : [],
+      maxPerClaim: limits.maxPerClaim,
+      remainingCapacity: await this.contract.getRemainingUserCapacity(
+        voucher.user,
+        voucher.token,
+      ),
+      vestingThreshold: policy.threshold,
+      availableBalance: await this.contract.availableBalance(voucher.token),
+    };
+  }
+
+  // Claims the voucher with the runner of the client: through `claimReward` if
+  // it is the user of the voucher, `claimRewardFor` otherwise.
+  async claim(voucher: Voucher): Promise<ethers.ContractTransactionReceipt> {
+    const runner = this.contract.runner as ethers.Signer;
+    const sender = await runner.getAddress();
+    return await this.call(async () => {
+      const tx =
+        ethers.getAddress(sender) === ethers.getAddress(voucher.user)
+          ? await this.contract.claimReward(
+              voucher.token,
+              voucher.amount,
+              voucher.nonce,
+              voucher.validAfter,
+              voucher.validUntil,
+              voucher.signature,
+            )
+          : await this.contract.claimRewardFor(
+              voucher.user,
+              voucher.token,
+              voucher.amount,
+              voucher.nonce,
+              voucher.validAfter,
+              voucher.validUntil,
+              voucher.signature,
+            );
+      return (await tx.wait())!;
+    });
+  }
+
+  // Calls `listener` for each reward paid from now on, to `user` only if set.
+  // Returns a function that stops the subscription.
+  async onRewardPaid(
+    listener: (event: RewardPaid) => void,
+    user?: string,
+  ): Promise<() => Promise<void>> {
+    const filter = this.contract.filters.RewardPaid(user);
+    // Ethers does not decode the arguments of events subscribed to through a
+    // topic filter, so the log is decoded from the payload passed last.
+    const handler = (...args: unknown[]) => {
+      const { log } = args[args.length - 1] as ethers.ContractEventPayload;
+      const event = this.contract.interface.parseLog(log)!;
+      listener({
+        user: event.args.user,
+        token: event.args.token,
+        amount: event.args.amount,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    };
+    await this.contract.on(
+      filter,
+      handler as TypedListener<RewardPaidEvent.Event>,
+    );
+    return async () => {
+      await this.contract.off(filter, handler);
+    };
+  }
+
+  private async call<T>(action: () => Promise<T>): Promise<T> {
+    try {
+      return await action();
+    } catch (error) {
+      throw toDistributorError(this.contract.interface, error);
+    }
+  }
+}
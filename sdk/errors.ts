@@ -0,0 +1,129 @@
+import { ethers } from "ethers";
+
+// Thrown for a call that reverted with a custom error of the distributor. Each
+// custom error has its own subclass, so callers can tell them apart with
+// `instanceof`; errors the SDK does not know are reported with this class.
+export class FundsDistributorError extends Error {
+  constructor(
+    readonly errorName: string,
+    readonly args: unknown[],
+    readonly cause?: unknown,
+  ) {
+    super(
+      `FundsDistributor reverted with ${errorName}(${args.map(String).join(", ")})`,
+    );
+    this.name = new.target.name;
+  }
+}
+
+export class InvalidSignatureChainIdError extends FundsDistributorError {}
+export class AlreadyConfiguredError extends FundsDistributorError {}
+export class ZeroAddressError extends FundsDistributorError {}
+export class InvalidNonceError extends FundsDistributorError {}
+export class InvalidSignatureError extends FundsDistributorError {}
+export class SignatureAlreadyUsedError extends FundsDistributorError {}
+export class UnknownSignerError extends FundsDistributorError {}
+export class VoucherExpiredError extends FundsDistributorError {}
+export class VoucherNotYetValidError extends FundsDistributorError {}
+export class TokenNotAllowedError extends FundsDistributorError {}
+export class NativeTransferFailedError extends FundsDistributorError {}
+export class EmptyBatchError extends FundsDistributorError {}
+export class InvalidMerkleRootError extends FundsDistributorError {}
+export class UnknownEpochError extends FundsDistributorError {}
+export class InvalidMerkleProofError extends FundsDistributorError {}
+export class EpochRewardAlreadyClaimedError extends FundsDistributorError {}
+export class EpochBudgetExceededError extends FundsDistributorError {}
+export class NothingToClaimError extends FundsDistributorError {}
+export class InvalidVestingPolicyError extends FundsDistributorError {}
+export class InvalidRateLimitsError extends FundsDistributorError {}
+export class ClaimLimitExceededError extends FundsDistributorError {}
+export class UserLimitExceededError extends FundsDistributorError {}
+export class GlobalLimitExceededError extends FundsDistributorError {}
+export class ClaimRevokedError extends FundsDistributorError {}
+export class InvalidAmountError extends FundsDistributorError {}
+export class InsufficientFundsError extends FundsDistributorError {}
+export class VestingThresholdExceededError extends FundsDistributorError {}
+export class UnknownCampaignError extends FundsDistributorError {}
+export class InvalidCampaignError extends FundsDistributorError {}
+export class CampaignNotActiveError extends FundsDistributorError {}
+export class CampaignBudgetExceededError extends FundsDistributorError {}
+export class InvalidSplitError extends FundsDistributorError {}
+export class OperationAlreadyScheduledError extends FundsDistributorError {}
+export class UnknownOperationError extends FundsDistributorError {}
+export class OperationNotReadyError extends FundsDistributorError {}
+// Inherited from the OpenZeppelin base contracts.
+export class EnforcedPauseError extends FundsDistributorError {}
+export class AccessControlUnauthorizedAccountError extends FundsDistributorError {}
+
+const ERROR_CLASSES: Record<string, typeof FundsDistributorError> = {
+  InvalidSignatureChainId: InvalidSignatureChainIdError,
+  AlreadyConfigured: AlreadyConfiguredError,
+  ZeroAddress: ZeroAddressError,
+  InvalidNonce: InvalidNonceError,
+  InvalidSignature: InvalidSignatureError,
+  SignatureAlreadyUsed: SignatureAlreadyUsedError,
+  UnknownSigner: UnknownSignerError,
+  VoucherExpired: VoucherExpiredError,
+  VoucherNotYetValid: VoucherNotYetValidError,
+  TokenNotAllowed: TokenNotAllowedError,
+  NativeTransferFailed: NativeTransferFailedError,
+  EmptyBatch: EmptyBatchError,
+  InvalidMerkleRoot: InvalidMerkleRootError,
+  UnknownEpoch: UnknownEpochError,
+  InvalidMerkleProof: InvalidMerkleProofError,
+  EpochRewardAlreadyClaimed: EpochRewardAlreadyClaimedError,
+  EpochBudgetExceeded: EpochBudgetExceededError,
+  NothingToClaim: NothingToClaimError,
+  InvalidVestingPolicy: InvalidVestingPolicyError,
+  InvalidRateLimits: InvalidRateLimitsError,
+  ClaimLimitExceeded: ClaimLimitExceededError,
+  UserLimitExceeded: UserLimitExceededError,
+  GlobalLimitExceeded: GlobalLimitExceededError,
+  ClaimRevoked: ClaimRevokedError,
+  InvalidAmount: InvalidAmountError,
+  InsufficientFunds: InsufficientFundsError,
+  VestingThresholdExceeded: VestingThresholdExceededError,
+  UnknownCampaign: UnknownCampaignError,
+  InvalidCampaign: InvalidCampaignError,
+  CampaignNotActive: CampaignNotActiveError,
+  CampaignBudgetExceeded: CampaignBudgetExceededError,
+  InvalidSplit: InvalidSplitError,
+  OperationAlreadyScheduled: OperationAlreadyScheduledError,
+  UnknownOperation: UnknownOperationError,
+  OperationNotReady: OperationNotReadyError,
+  EnforcedPause: EnforcedPauseError,
+  AccessControlUnauthorizedAccount: AccessControlUnauthorizedAccountError,
+};
+
+// Whether the contract declares the error, as `getError` and `parseError` also
+// resolve the built-in `Error(string)` and `Panic(uint256)`.
+function isContractError(
+  contractInterface: ethers.Interface,
+  name: string,
+): boolean {
+  let declared = false;
+  contractInterface.forEachError((fragment) => {
+    declared ||= fragment.name === name;
+  });
+  return declared;
+}
+
+// Maps a revert of the distributor to its typed exception. Anything that is
+// not a custom error of the contract, including a failed `require` or a panic,
+// is returned unchanged.
+export function toDistributorError(
+  contractInterface: ethers.Interface,
+  error: unknown,
+): unknown {
+  const callException = error as ethers.CallExceptionError;
+  const revert =
+    callException.revert ??
+    (typeof callException.data === "string"
+      ? contractInterface.parseError(callException.data)
+      : null);
+  if (!revert || !isContractError(contractInterface, revert.name)) {
+    return error;
+  }
+  const ErrorClass = ERROR_CLASSES[revert.name] ?? FundsDistributorError;
+  return new ErrorClass(revert.name, [...revert.args], error);
+}
@@ -0,0 +1,4 @@
+export * from "./errors";
+export * from "./FundsDistributorClient";
+export * from "./preview";
+export { NATIVE_TOKEN } from "../scripts/voucher";
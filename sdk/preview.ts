@@ -0,0 +1,118 @@
+import { ethers } from "ethers";
+import { CLAIM_TYPES, getDomain } from "../scripts/voucher";
+import { Voucher } from "./FundsDistributorClient";
+
+// Mirrors `FundsDistributor.ClaimStatus`, in the order the checks are made.
+export enum ClaimStatus {
+  Ok,
+  WrongChain,
+  Paused,
+  NotYetValid,
+  Expired,
+  TokenNotAllowed,
+  Used,
+  WrongNonce,
+  Revoked,
+  BadSigner,
+  LimitExceeded,
+  InsufficientBalance,
+}
+
+// The state of the distributor a claim is checked against. `getClaimContext`
+// of the client reads it for a voucher.
+export interface ClaimContext {
+  // The chain the distributor is deployed on.
+  chainId: bigint;
+  distributor: string;
+  // The timestamp of the block the claim would be included in.
+  timestamp: bigint;
+  paused: boolean;
+  tokenAllowed: boolean;
+  // The current nonce of the user.
+  nonce: bigint;
+  // Whether the digest of the voucher has been used or revoked.
+  used: boolean;
+  revoked: boolean;
+  signers: string[];
+  // The largest amount of a single claim, zero if unlimited.
+  maxPerClaim: bigint;
+  // What the user can still claim under the rate limits right now.
+  remainingCapacity: bigint;
+  // Claims above the threshold vest instead of being paid out, zero if off.
+  vestingThreshold: bigint;
+  availableBalance: bigint;
+}
+
+// Recovers the address that signed a voucher for the given distributor, as
+// the contract does, or returns null for a malformed signature.
+export function recoverVoucherSigner(
+  voucher: Voucher,
+  distributor: string,
+  chainId: ethers.BigNumberish,
+): string | null {
+  try {
+    return ethers.verifyTypedData(
+      getDomain(distributor, chainId),
+      CLAIM_TYPES,
+      voucher,
+      voucher.signature,
+    );
+  } catch {
+    return null;
+  }
+}
+
+// Reproduces `previewClaim` without calling the chain: `chainId` is the chain
+// the voucher was signed for, checked against the one of the context.
+export function previewClaim(
+  voucher: Voucher,
+  chainId: bigint,
+  context: ClaimContext,
+): ClaimStatus {
+  if (chainId !== context.chainId) {
+    return ClaimStatus.WrongChain;
+  }
+  if (context.paused) {
+    return ClaimStatus.Paused;
+  }
+  if (context.timestamp < voucher.validAfter) {
+    return ClaimStatus.NotYetValid;
+  }
+  if (context.timestamp > voucher.validUntil) {
+    return ClaimStatus.Expired;
+  }
+  if (!context.tokenAllowed) {
+    return ClaimStatus.TokenNotAllowed;
+  }
+  if (context.used) {
+    return ClaimStatus.Used;
+  }
+  if (voucher.nonce !== context.nonce) {
+    return ClaimStatus.WrongNonce;
+  }
+  if (context.revoked) {
+    return ClaimStatus.Revoked;
+  }
+  const signer = recoverVoucherSigner(
+    voucher,
+    context.distributor,
+    context.chainId,
+  );
+  const signers = context.signers.map((address) => ethers.getAddress(address));
+  if (signer === null || !signers.includes(signer)) {
+    return ClaimStatus.BadSigner;
+  }
+  if (
+    (context.maxPerClaim !== 0n && voucher.amount > context.maxPerClaim) ||
+    voucher.amount > context.remainingCapacity
+  ) {
+    return ClaimStatus.LimitExceeded;
+  }
+  const vests =
+    context.vestingThreshold !== 0n &&
+    voucher.amount > context.vestingThreshold;
+  if (!vests && voucher.amount > context.availableBalance) {
+    return ClaimStatus.InsufficientBalance;
+  }
+  return ClaimStatus.Ok;
+}
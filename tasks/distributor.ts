@@ -0,0 +1,546 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, ethers } from "ethers";
+import fs from "fs";
+import { describeError } from "../scripts/errors";
+import {
+  DEFAULT_TTL,
+  SignedClaim,
+  getDomain,
+  getValidityWindow,
+  signClaim,
+} from "../scripts/voucher";
+
+const PLUGIN_NAME = "distributor";
+
+// The roles that can be passed to `distributor:grant-role` and
+// `distributor:revoke-role`, by the name of their constant without `_ROLE`.
+export const ROLES = ["ADMIN", "PAUSER", "UPGRADER", "SIGNER"];
+
+export interface DistributorStatus {
+  address: string;
+  implementation: string;
+  paused: boolean;
+  token: string;
+  balance: bigint;
+  reserved: bigint;
+  distributed: bigint;
+  epochs: bigint;
+}
+
+export interface VoucherVerification {
+  digest: string;
+  signedBySigner: boolean;
+  // The custom error claiming the voucher would revert with, undefined if the
+  // voucher can be claimed now.
+  error?: string;
+}
+
+// An operation scheduled with `scheduleOperation` that was neither executed
+// nor cancelled yet.
+export interface PendingOperation {
+  operationId: string;
+  // The call the operation executes, as `method(arg, ...)`.
+  call: string;
+  data: string;
+  readyAt: bigint;
+  // Whether the delay of the operation has passed at the latest block.
+  ready: boolean;
+}
+
+interface DistributorArgs {
+  distributor: string;
+  from?: string;
+}
+
+// Connects to the distributor at `--distributor`, or `DISTRIBUTOR_ADDRESS`,
+// with the account of `--from`, or the first account of the network.
+async function getDistributor(
+  hre: HardhatRuntimeEnvironment,
+  args: DistributorArgs,
+): Promise<Contract> {
+  const address = args.distributor || process.env.DISTRIBUTOR_ADDRESS || "";
+  if (!ethers.isAddress(address)) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      "Pass --distributor or set DISTRIBUTOR_ADDRESS",
+    );
+  }
+  const account = args.from
+    ? await hre.ethers.getSigner(parseAddress(args.from))
+    : (await hre.ethers.getSigners())[0];
+  return (await hre.ethers.getContractAt(
+    "FundsDistributor",
+    address,
+    account,
+  )) as unknown as Contract;
+}
+
+function parseAddress(value: string): string {
+  if (!ethers.isAddress(value)) {
+    throw new HardhatPluginError(PLUGIN_NAME, `Invalid address: ${value}`);
+  }
+  return ethers.getAddress(value);
+}
+
+function readVoucher(file: string): SignedClaim {
+  const voucher: SignedClaim = JSON.parse(fs.readFileSync(file, "utf8"));
+  for (const field of [
+    "user",
+    "token",
+    "amount",
+    "nonce",
+    "validAfter",
+    "validUntil",
+    "signature",
+  ]) {
+    if ((voucher as unknown as Record<string, unknown>)[field] === undefined) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `The voucher in ${file} has no ${field}`,
+      );
+    }
+  }
+  return voucher;
+}
+
+function claimArgs(voucher: SignedClaim) {
+  return [
+    voucher.user,
+    voucher.token,
+    voucher.amount,
+    voucher.nonce,
+    voucher.validAfter,
+    voucher.validUntil,
+    voucher.signature,
+  ];
+}
+
+// Sends a transaction to the distributor and waits for it to be mined, turning
+// a revert into an error naming the custom error of the contract.
+async function send(
+  distributor: Contract,
+  method: string,
+  args: unknown[],
+): Promise<string> {
+  try {
+    const tx = await distributor[method](...args);
+    await tx.wait();
+    console.log(`${method} succeeded in ${tx.hash}`);
+    return tx.hash;
+  } catch (error) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `${method} reverted with ${describeError(distributor, error)}`,
+    );
+  }
+}
+
+// Schedules a call to the distributor as a sensitive operation, which
+// `distributor:execute` runs once the operation delay has passed.
+async function schedule(
+  distributor: Contract,
+  method: string,
+  args: unknown[],
+): Promise<string> {
+  const data = distributor.interface.encodeFunctionData(method, args);
+  const hash = await send(distributor, "scheduleOperation", [data]);
+  const operationId = ethers.keccak256(data);
+  const readyAt: bigint = await distributor.getOperationReadyAt(operationId);
+  console.log(
+    `Scheduled ${method} as operation ${operationId}, executable from ${formatTimestamp(readyAt)}`,
+  );
+  return hash;
+}
+
+// Finds the pending operations among those scheduled since `fromBlock`. An
+// operation scheduled again after being executed or cancelled is only listed
+// once, with its latest schedule.
+async function getPendingOperations(
+  distributor: Contract,
+  fromBlock: number,
+): Promise<PendingOperation[]> {
+  const events = (await distributor.queryFilter(
+    distributor.filters.OperationScheduled(),
+    fromBlock,
+  )) as ethers.EventLog[];
+  const latest = await distributor.runner!.provider!.getBlock("latest");
+  const pending = new Map<string, PendingOperation>();
+  for (const event of events) {
+    const [operationId, data, readyAt] = event.args;
+    if ((await distributor.getOperationReadyAt(operationId)) !== readyAt) {
+      continue;
+    }
+    const call = distributor.interface.parseTransaction({ data });
+    pending.set(operationId, {
+      operationId,
+      call: call ? `${call.name}(${call.args.join(", ")})` : data,
+      data,
+      readyAt,
+      ready: BigInt(latest!.timestamp) >= readyAt,
+    });
+  }
+  return [...pending.values()];
+}
+
+function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+function distributorTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam(
+      "distributor",
+      "The address of the distributor proxy, DISTRIBUTOR_ADDRESS by default",
+      "",
+      types.string,
+    )
+    .addOptionalParam(
+      "from",
+      "The account to act as, the first account of the network by default",
+      undefined,
+      types.string,
+    );
+}
+
+distributorTask(
+  "distributor:status",
+  "Prints the configuration and the treasury of a distributor",
+).setAction(async (args: DistributorArgs, hre): Promise<DistributorStatus> => {
+  const distributor = await getDistributor(hre, args);
+  const address = await distributor.getAddress();
+  const token: string = await distributor.token();
+  const status: DistributorStatus = {
+    address,
+    implementation:
+      await hre.upgrades.erc1967.getImplementationAddress(address),
+    paused: await distributor.paused(),
+    token,
+    balance: await distributor.availableBalance(token),
+    reserved: await distributor.vestingReserve(token),
+    distributed: await distributor.totalDistributed(token),
+    epochs: await distributor.epochCount(),
+  };
+
+  console.log(`Distributor     ${status.address}`);
+  console.log(`  Implementation: ${status.implementation}`);
+  console.log(`  Paused:         ${status.paused ? "yes" : "no"}`);
+  console.log(`  Default token:  ${status.token}`);
+  console.log(`  Available:      ${status.balance}`);
+  console.log(`  Reserved:       ${status.reserved}`);
+  console.log(`  Distributed:    ${status.distributed}`);
+  console.log(`  Epochs:         ${status.epochs}`);
+  return status;
+});
+
+distributorTask("distributor:nonce", "Prints the next nonce of a user")
+  .addParam("user", "The address of the user", undefined, types.string)
+  .setAction(
+    async (args: DistributorArgs & { user: string }, hre): Promise<bigint> => {
+      const distributor = await getDistributor(hre, args);
+      const user = parseAddress(args.user);
+      const nonce: bigint = await distributor.getNonce(user);
+      console.log(`Next nonce of ${user}: ${nonce}`);
+      return nonce;
+    },
+  );
+
+distributorTask(
+  "distributor:sign",
+  "Signs a voucher with the --from account, which must hold the SIGNER_ROLE",
+)
+  .addParam("user", "The address of the user", undefined, types.string)
+  .addParam("amount", "The amount of the reward", undefined, types.bigint)
+  .addOptionalParam(
+    "token",
+    "The reward token, the default token by default",
+    undefined,
+    types.string,
+  )
+  .addOptionalParam(
+    "nonce",
+    "The nonce of the voucher, the next nonce of the user by default",
+    undefined,
+    types.bigint,
+  )
+  .addOptionalParam(
+    "ttl",
+    "How long the voucher stays valid, in seconds",
+    DEFAULT_TTL,
+    types.int,
+  )
+  .addOptionalParam(
+    "out",
+    "The file to write the voucher to, printed if omitted",
+    undefined,
+    types.string,
+  )
+  .setAction(
+    async (
+      args: DistributorArgs & {
+        user: string;
+        amount: bigint;
+        token?: string;
+        nonce?: bigint;
+        ttl: number;
+        out?: string;
+      },
+      hre,
+    ): Promise<SignedClaim> => {
+      const distributor = await getDistributor(hre, args);
+      const signer = distributor.runner as ethers.Signer;
+      const signerAddress = await signer.getAddress();
+      if (!(await distributor.isSigner(signerAddress))) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `${signerAddress} is not an authorized signer`,
+        );
+      }
+      const user = parseAddress(args.user);
+      // The validity window starts at the latest block, which the distributor
+      // checks it against, rather than at the wall clock.
+      const latest = await hre.ethers.provider.getBlock("latest");
+      const claim = {
+        user,
+        token: args.token
+          ? parseAddress(args.token)
+          : await distributor.token(),
+        amount: args.amount.toString(),
+        nonce: (args.nonce ?? (await distributor.getNonce(user))).toString(),
+        ...getValidityWindow(args.ttl, latest!.timestamp),
+      };
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const voucher: SignedClaim = {
+        ...claim,
+        signature: await signClaim(
+          signer,
+          getDomain(await distributor.getAddress(), chainId),
+          claim,
+        ),
+      };
+
+      const json = JSON.stringify(voucher, null, 2);
+      if (args.out) {
+        fs.writeFileSync(args.out, json);
+        console.log(`Voucher written to ${args.out}`);
+      } else {
+        console.log(json);
+      }
+      return voucher;
+    },
+  );
+
+distributorTask(
+  "distributor:verify",
+  "Checks the signature of a voucher and whether it can be claimed now",
+)
+  .addPositionalParam(
+    "voucher",
+    "The JSON file of the voucher",
+    undefined,
+    types.inputFile,
+  )
+  .setAction(
+    async (
+      args: DistributorArgs & { voucher: string },
+      hre,
+    ): Promise<VoucherVerification> => {
+      const distributor = await getDistributor(hre, args);
+      const voucher = readVoucher(args.voucher);
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const verification: VoucherVerification = {
+        digest: await distributor.hashClaim(...claimArgs(voucher).slice(0, 6)),
+        signedBySigner: await distributor.verifySignature(
+          ...claimArgs(voucher).slice(0, 6),
+          chainId,
+          voucher.signature,
+        ),
+      };
+      try {
+        await distributor.claimRewardFor.staticCall(...claimArgs(voucher));
+      } catch (error) {
+        verification.error = describeError(distributor, error);
+      }
+
+      console.log(`Voucher ${verification.digest}`);
+      console.log(
+        `  Signature: ${verification.signedBySigner ? "signed by an authorized signer" : "not signed by an authorized signer"}`,
+      );
+      console.log(
+        `  Claimable: ${verification.error === undefined ? "yes" : `no, reverts with ${verification.error}`}`,
+      );
+      return verification;
+    },
+  );
+
+distributorTask(
+  "distributor:claim",
+  "Claims a voucher on behalf of its user, paying the gas with the --from account",
+)
+  .addPositionalParam(
+    "voucher",
+    "The JSON file of the voucher",
+    undefined,
+    types.inputFile,
+  )
+  .setAction(
+    async (
+      args: DistributorArgs & { voucher: string },
+      hre,
+    ): Promise<string> => {
+      const distributor = await getDistributor(hre, args);
+      return await send(
+        distributor,
+        "claimRewardFor",
+        claimArgs(readVoucher(args.voucher)),
+      );
+    },
+  );
+
+distributorTask("distributor:pause", "Pauses the claims").setAction(
+  async (args: DistributorArgs, hre): Promise<string> =>
+    await send(await getDistributor(hre, args), "pause", []),
+);
+
+distributorTask("distributor:unpause", "Resumes the claims").setAction(
+  async (args: DistributorArgs, hre): Promise<string> =>
+    await send(await getDistributor(hre, args), "unpause", []),
+);
+
+distributorTask(
+  "distributor:set-token",
+  "Schedules a change of the default reward token",
+)
+  .addParam("token", "The address of the token", undefined, types.string)
+  .setAction(
+    async (args: DistributorArgs & { token: string }, hre): Promise<string> =>
+      await schedule(await getDistributor(hre, args), "configureTokenAddress", [
+        parseAddress(args.token),
+      ]),
+  );
+
+interface OperationArgs extends DistributorArgs {
+  fromBlock: number;
+}
+
+function operationTask(name: string, description: string) {
+  return distributorTask(name, description).addOptionalParam(
+    "fromBlock",
+    "The block to look for scheduled operations from",
+    0,
+    types.int,
+  );
+}
+
+operationTask(
+  "distributor:operations",
+  "Lists the operations waiting to be executed",
+).setAction(async (args: OperationArgs, hre): Promise<PendingOperation[]> => {
+  const distributor = await getDistributor(hre, args);
+  const operations = await getPendingOperations(distributor, args.fromBlock);
+
+  console.log(
+    `${operations.length} pending operation(s), delay ${await distributor.operationDelay()}s`,
+  );
+  for (const operation of operations) {
+    console.log(`  ${operation.operationId}`);
+    console.log(`    Call:  ${operation.call}`);
+    console.log(
+      `    Ready: ${operation.ready ? "yes" : "no"}, from ${formatTimestamp(operation.readyAt)}`,
+    );
+  }
+  return operations;
+});
+
+operationTask(
+  "distributor:execute",
+  "Executes a pending operation once its delay has passed",
+)
+  .addParam("operation", "The ID of the operation", undefined, types.string)
+  .setAction(
+    async (
+      args: OperationArgs & { operation: string },
+      hre,
+    ): Promise<string> => {
+      const distributor = await getDistributor(hre, args);
+      const operation = (
+        await getPendingOperations(distributor, args.fromBlock)
+      ).find(({ operationId }) => operationId === args.operation);
+      if (!operation) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `No pending operation ${args.operation}`,
+        );
+      }
+      return await send(distributor, "executeOperation", [operation.data]);
+    },
+  );
+
+distributorTask("distributor:cancel", "Cancels a pending operation")
+  .addParam("operation", "The ID of the operation", undefined, types.string)
+  .setAction(
+    async (
+      args: DistributorArgs & { operation: string },
+      hre,
+    ): Promise<string> =>
+      await send(await getDistributor(hre, args), "cancelOperation", [
+        args.operation,
+      ]),
+  );
+
+interface RoleArgs extends DistributorArgs {
+  role: string;
+  account: string;
+}
+
+// Signers are managed through `addSigner`/`removeSigner`, the other roles
+// through `grantRole`/`revokeRole`. Everything is scheduled as an operation
+// except removing a signer, which the admin does right away so that a
+// compromised signing key can be shut out immediately.
+async function updateRole(
+  hre: HardhatRuntimeEnvironment,
+  args: RoleArgs,
+  grant: boolean,
+): Promise<string> {
+  const role = args.role.toUpperCase();
+  if (!ROLES.includes(role)) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `Unknown role ${args.role}, expected one of ${ROLES.join(", ")}`,
+    );
+  }
+  const distributor = await getDistributor(hre, args);
+  const account = parseAddress(args.account);
+  if (role === "SIGNER") {
+    return grant
+      ? await schedule(distributor, "addSigner", [account])
+      : await send(distributor, "removeSigner", [account]);
+  }
+  return await schedule(distributor, grant ? "grantRole" : "revokeRole", [
+    await distributor[`${role}_ROLE`](),
+    account,
+  ]);
+}
+
+distributorTask(
+  "distributor:grant-role",
+  "Grants a role to an account through an operation",
+)
+  .addParam("role", `One of ${ROLES.join(", ")}`, undefined, types.string)
+  .addParam("account", "The address of the account", undefined, types.string)
+  .setAction(
+    async (args: RoleArgs, hre): Promise<string> =>
+      await updateRole(hre, args, true),
+  );
+
+distributorTask(
+  "distributor:revoke-role",
+  "Revokes a role from an account, through an operation unless it is SIGNER",
+)
+  .addParam("role", `One of ${ROLES.join(", ")}`, undefined, types.string)
+  .addParam("account", "The address of the account", undefined, types.string)
+  .setAction(
+    async (args: RoleArgs, hre): Promise<string> =>
+      await updateRole(hre, args, false),
+  );
@@ -2,7 +2,26 @@ import { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
 import { Contract, ContractFactory } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+  DOMAIN_NAME,
+  DOMAIN_VERSION,
+  NATIVE_TOKEN,
+  MAX_SPLIT_RECIPIENTS,
+  Payout,
+  SignedClaim,
+  assembleBatch,
+  getDomain,
+  hashClaim,
+  getValidityWindow,
+  hashCumulativeClaim,
+  hashSplitClaim,
+  signCampaignClaim,
+  signClaim,
+  signCumulativeClaim,
+  signSplitClaim,
+} from "../scripts/voucher";
+import { buildMerkleDistribution, MerkleDistribution } from "../scripts/buildMerkleTree";
 import {
   TransactionReceipt,
   TransactionResponse,
@@ -12,6 +31,8 @@ describe("Contract 'FundsDistributor'", async () => {
   const PAUSER_ROLE = ethers.id("PAUSER_ROLE");
   const UPGRADER_ROLE = ethers.id("UPGRADER_ROLE");
   const ADMIN_ROLE = ethers.id("ADMIN_ROLE");
+  const SIGNER_ROLE = ethers.id("SIGNER_ROLE");
+  const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
 
   const REVERT_ERROR_INVALID_INITIALIZATION = "InvalidInitialization";
   const REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED =
@@ -23,30 +44,103 @@ describe("Contract 'FundsDistributor'", async () => {
   const REVERT_ERROR_INVALID_NONCE = "InvalidNonce";
   const REVERT_ERROR_INVALID_SIGNATURE = "InvalidSignature";
   const REVERT_ERROR_SIGNATURE_ALREADY_USED = "SignatureAlreadyUsed";
-  const REVERT_ERROR_ERC20_BALANCE_EXCEEDED = "ERC20InsufficientBalance";
   const REVERT_ERROR_INVALID_CHAIN_ID = "InvalidSignatureChainId";
+  const REVERT_ERROR_UNKNOWN_SIGNER = "UnknownSigner";
+  const REVERT_ERROR_VOUCHER_EXPIRED = "VoucherExpired";
+  const REVERT_ERROR_VOUCHER_NOT_YET_VALID = "VoucherNotYetValid";
+  const REVERT_ERROR_TOKEN_NOT_ALLOWED = "TokenNotAllowed";
+  const REVERT_ERROR_NATIVE_TRANSFER_FAILED = "NativeTransferFailed";
+  const REVERT_ERROR_EMPTY_BATCH = "EmptyBatch";
+  const REVERT_ERROR_INVALID_MERKLE_ROOT = "InvalidMerkleRoot";
+  const REVERT_ERROR_UNKNOWN_EPOCH = "UnknownEpoch";
+  const REVERT_ERROR_INVALID_MERKLE_PROOF = "InvalidMerkleProof";
+  const REVERT_ERROR_EPOCH_REWARD_ALREADY_CLAIMED = "EpochRewardAlreadyClaimed";
+  const REVERT_ERROR_EPOCH_BUDGET_EXCEEDED = "EpochBudgetExceeded";
+  const REVERT_ERROR_NOTHING_TO_CLAIM = "NothingToClaim";
+  const REVERT_ERROR_INVALID_VESTING_POLICY = "InvalidVestingPolicy";
+  const REVERT_ERROR_INVALID_RATE_LIMITS = "InvalidRateLimits";
+  const REVERT_ERROR_CLAIM_LIMIT_EXCEEDED = "ClaimLimitExceeded";
+  const REVERT_ERROR_USER_LIMIT_EXCEEDED = "UserLimitExceeded";
+  const REVERT_ERROR_GLOBAL_LIMIT_EXCEEDED = "GlobalLimitExceeded";
+  const REVERT_ERROR_CLAIM_REVOKED = "ClaimRevoked";
+  const REVERT_ERROR_INVALID_AMOUNT = "InvalidAmount";
+  const REVERT_ERROR_INSUFFICIENT_FUNDS = "InsufficientFunds";
+  const REVERT_ERROR_VESTING_THRESHOLD_EXCEEDED = "VestingThresholdExceeded";
+  const REVERT_ERROR_UNKNOWN_CAMPAIGN = "UnknownCampaign";
+  const REVERT_ERROR_INVALID_CAMPAIGN = "InvalidCampaign";
+  const REVERT_ERROR_CAMPAIGN_NOT_ACTIVE = "CampaignNotActive";
+  const REVERT_ERROR_CAMPAIGN_BUDGET_EXCEEDED = "CampaignBudgetExceeded";
+  const REVERT_ERROR_INVALID_SPLIT = "InvalidSplit";
+  const REVERT_ERROR_OPERATION_ALREADY_SCHEDULED = "OperationAlreadyScheduled";
+  const REVERT_ERROR_UNKNOWN_OPERATION = "UnknownOperation";
+  const REVERT_ERROR_OPERATION_NOT_READY = "OperationNotReady";
 
   const EVENT_NAME_TOKEN_ADDRESS_CONFIGURED = "TokenConfigured";
   const EVENT_NAME_REWARD_PAID = "RewardPaid";
+  const EVENT_NAME_SIGNER_ADDED = "SignerAdded";
+  const EVENT_NAME_SIGNER_REMOVED = "SignerRemoved";
+  const EVENT_NAME_TOKEN_ALLOWED = "TokenAllowed";
+  const EVENT_NAME_TOKEN_DISALLOWED = "TokenDisallowed";
+  const EVENT_NAME_FUNDED = "Funded";
+  const EVENT_NAME_EPOCH_PUBLISHED = "EpochPublished";
+  const EVENT_NAME_EPOCH_REWARD_CLAIMED = "EpochRewardClaimed";
+  const EVENT_NAME_VESTING_POLICY_CONFIGURED = "VestingPolicyConfigured";
+  const EVENT_NAME_VESTING_CREATED = "VestingCreated";
+  const EVENT_NAME_VESTING_RELEASED = "VestingReleased";
+  const EVENT_NAME_LIMITS_UPDATED = "LimitsUpdated";
+  const EVENT_NAME_VOUCHER_REVOKED = "VoucherRevoked";
+  const EVENT_NAME_NONCE_INVALIDATED = "NonceInvalidated";
+  const EVENT_NAME_WITHDRAWN = "Withdrawn";
+  const EVENT_NAME_CAMPAIGN_CREATED = "CampaignCreated";
+  const EVENT_NAME_CAMPAIGN_ACTIVE_CHANGED = "CampaignActiveChanged";
+  const EVENT_NAME_CAMPAIGN_REWARD_PAID = "CampaignRewardPaid";
+  const EVENT_NAME_OPERATION_SCHEDULED = "OperationScheduled";
+  const EVENT_NAME_OPERATION_EXECUTED = "OperationExecuted";
+  const EVENT_NAME_OPERATION_CANCELLED = "OperationCancelled";
+  const EVENT_NAME_OPERATION_DELAY_CHANGED = "OperationDelayChanged";
 
   const SUPPLY_AMOUNT = 1_000_000;
   const REWARD_AMOUNT = 100;
   const HARDHAT_CHAIN_ID = 31337;
+  const VALID_AFTER = 0;
+  const VALID_UNTIL = 4_102_444_800; // 2100-01-01
+  const VOUCHER_TTL = 3600;
+  const VESTING_THRESHOLD = 1_000;
+  const VESTING_CLIFF = 1_000;
+  const VESTING_DURATION = 4_000;
+  const VESTED_AMOUNT = 4_000;
+  const LIMIT_WINDOW = 86_400;
+  const OPERATION_DELAY = 2 * 86_400;
+
+  // FundsDistributor.ClaimStatus
+  const CLAIM_STATUS_OK = 0;
+  const CLAIM_STATUS_WRONG_CHAIN = 1;
+  const CLAIM_STATUS_PAUSED = 2;
+  const CLAIM_STATUS_USED = 6;
+  const CLAIM_STATUS_WRONG_NONCE = 7;
+  const CLAIM_STATUS_BAD_SIGNER = 9;
+  const CLAIM_STATUS_LIMIT_EXCEEDED = 10;
+  const CLAIM_STATUS_INSUFFICIENT_BALANCE = 11;
 
   let tokenFactory: ContractFactory;
   let distributorFactory: ContractFactory;
+  let distributorV1Factory: ContractFactory;
+  let nativeReceiverFactory: ContractFactory;
   let deployer: HardhatEthersSigner;
   let pauser: HardhatEthersSigner;
   let upgrader: HardhatEthersSigner;
   let user: HardhatEthersSigner;
   let attacker: HardhatEthersSigner;
   let random: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
 
   before(async () => {
-    [deployer, pauser, upgrader, user, attacker, random] =
+    [deployer, pauser, upgrader, user, attacker, random, signer] =
       await ethers.getSigners();
     tokenFactory = await ethers.getContractFactory("TestToken");
     distributorFactory = await ethers.getContractFactory("FundsDistributor");
+    distributorV1Factory = await ethers.getContractFactory("FundsDistributorV1Mock");
+    nativeReceiverFactory = await ethers.getContractFactory("NativeReceiverMock");
   });
 
   async function getTx(
@@ -56,8 +150,94 @@ describe("Contract 'FundsDistributor'", async () => {
     return txReceipt.wait();
   }
 
+  // Schedules a call to the distributor as a sensitive operation and executes
+  // it once the operation delay has passed.
+  async function executeOperation(
+    distributor: Contract,
+    method: string,
+    args: unknown[],
+    caller: HardhatEthersSigner = deployer,
+  ) {
+    const distributorConnectedToCaller = distributor.connect(caller) as Contract;
+    const data = distributor.interface.encodeFunctionData(method, args);
+    await getTx(distributorConnectedToCaller.scheduleOperation(data));
+    await time.increase(OPERATION_DELAY);
+    return distributorConnectedToCaller.executeOperation(data);
+  }
+
+  // Expects a timelocked call to revert unless it goes through an operation
+  // scheduled by the admin.
+  async function expectOnlyThroughOperation(distributor: Contract, method: string, args: unknown[]) {
+    await expect(distributor.getFunction(method)(...args))
+      .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+      .withArgs(deployer.address, DEFAULT_ADMIN_ROLE);
+    await expect((distributor.connect(attacker) as Contract).scheduleOperation(
+      distributor.interface.encodeFunctionData(method, args)
+    ))
+      .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+      .withArgs(attacker.address, ADMIN_ROLE);
+  }
+
   async function createSignature(
-    signer: HardhatEthersSigner,
+    distributor: Contract,
+    recipient: HardhatEthersSigner,
+    amount: number,
+    nonce: number,
+    chainId: number,
+    voucherSigner: HardhatEthersSigner = signer,
+    validAfter: number = VALID_AFTER,
+    validUntil: number = VALID_UNTIL,
+    rewardToken?: string,
+  ): Promise<string> {
+    const domain = getDomain(await distributor.getAddress(), chainId);
+    return await signClaim(voucherSigner, domain, {
+      user: recipient.address,
+      token: rewardToken ?? await distributor.token(),
+      amount,
+      nonce,
+      validAfter,
+      validUntil
+    });
+  }
+
+  async function createVoucher(
+    distributor: Contract,
+    recipient: HardhatEthersSigner,
+    amount: number,
+    nonce: number,
+    rewardToken?: string,
+  ): Promise<SignedClaim> {
+    const claim = {
+      user: recipient.address,
+      token: rewardToken ?? await distributor.token(),
+      amount,
+      nonce,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    };
+    const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+    return { ...claim, signature: await signClaim(signer, domain, claim) };
+  }
+
+  async function createCumulativeSignature(
+    distributor: Contract,
+    recipient: HardhatEthersSigner,
+    cumulativeAmount: number,
+    voucherSigner: HardhatEthersSigner = signer,
+    rewardToken?: string,
+  ): Promise<string> {
+    const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+    return await signCumulativeClaim(voucherSigner, domain, {
+      user: recipient.address,
+      token: rewardToken ?? await distributor.token(),
+      cumulativeAmount,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    });
+  }
+
+  async function createLegacySignature(
+    recipient: HardhatEthersSigner,
     amount: number,
     nonce: number,
     chainId: number,
@@ -65,10 +245,10 @@ describe("Contract 'FundsDistributor'", async () => {
     // user, amount, nonce, chainId
     const message = ethers.solidityPackedKeccak256(
       ["address", "uint256", "uint256", "uint256"],
-      [signer.address, amount, nonce, chainId]
+      [recipient.address, amount, nonce, chainId]
     );
     const messageHashBin = ethers.getBytes(message);
-    return await user.signMessage(messageHashBin);
+    return await recipient.signMessage(messageHashBin);
   }
 
   async function deployContracts(): Promise<{
@@ -84,7 +264,8 @@ describe("Contract 'FundsDistributor'", async () => {
       pauser.address,
       upgrader.address,
       deployer.address, // admin role
-      tokenAddress
+      tokenAddress,
+      signer.address
     ]);
     await distributor.waitForDeployment;
     distributor = distributor.connect(deployer) as Contract;
@@ -102,14 +283,24 @@ describe("Contract 'FundsDistributor'", async () => {
       expect(await distributor.hasRole(PAUSER_ROLE, pauser.address)).to.eq(true);
       expect(await distributor.hasRole(UPGRADER_ROLE, upgrader.address)).to.eq(true);
       expect(await distributor.hasRole(ADMIN_ROLE, deployer.address)).to.eq(true);
+      expect(await distributor.hasRole(SIGNER_ROLE, signer.address)).to.eq(true);
       expect(await distributor.token()).to.eq(await token.getAddress());
+      expect(await distributor.isTokenAllowed(await token.getAddress())).to.eq(true);
+      expect(await distributor.hasRole(DEFAULT_ADMIN_ROLE, await distributor.getAddress())).to.eq(true);
+      expect(await distributor.operationDelay()).to.eq(OPERATION_DELAY);
+
+      const [, name, version, chainId, verifyingContract] = await distributor.eip712Domain();
+      expect(name).to.eq(DOMAIN_NAME);
+      expect(version).to.eq(DOMAIN_VERSION);
+      expect(chainId).to.eq(HARDHAT_CHAIN_ID);
+      expect(verifyingContract).to.eq(await distributor.getAddress());
     });
 
     it("Initializer is reverted if called second time", async () => {
       const { distributor } = await loadFixture(deployContracts);
 
       await expect(
-        distributor.initialize(pauser.address, upgrader.address, deployer.address, random.address))
+        distributor.initialize(pauser.address, upgrader.address, deployer.address, random.address, signer.address))
           .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_INITIALIZATION);
     });
 
@@ -123,20 +314,143 @@ describe("Contract 'FundsDistributor'", async () => {
       await newImplementation.waitForDeployment();
       const expectedNewImplementationAddress = await newImplementation.getAddress();
 
-      await getTx(distributorConnectedToUpgrader.upgradeToAndCall(expectedNewImplementationAddress, "0x"));
+      await getTx(executeOperation(distributor, "upgradeToAndCall", [expectedNewImplementationAddress, "0x"], upgrader));
 
       const actualNewImplementationAddress = await upgrades.erc1967.getImplementationAddress(contractAddress);
       expect(actualNewImplementationAddress).to.eq(expectedNewImplementationAddress);
       expect(actualNewImplementationAddress).not.to.eq(oldImplementationAddress);
     });
 
-    it("'upgradeToAndCall()' is reverted if the caller is not the upgrader", async () => {
+    it("'upgradeToAndCall()' is reverted if not called through an operation", async () => {
       const { distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUpgrader = distributor.connect(upgrader) as Contract;
       const distributorConnectedToAttacker = distributor.connect(attacker) as Contract;
+      const data = distributor.interface.encodeFunctionData("upgradeToAndCall", [random.address, "0x"]);
 
-      await expect(distributorConnectedToAttacker.upgradeToAndCall(random.address, "0x"))
+      await expect(distributorConnectedToUpgrader.upgradeToAndCall(random.address, "0x"))
+        .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+        .withArgs(upgrader.address, DEFAULT_ADMIN_ROLE);
+      await expect(distributorConnectedToAttacker.scheduleOperation(data))
         .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
         .withArgs(attacker.address, UPGRADER_ROLE);
+      await expect(distributor.scheduleOperation(data))
+        .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+        .withArgs(deployer.address, UPGRADER_ROLE);
+    });
+  });
+
+  describe("Upgrade from the initial release", async () => {
+    async function deployV1Contracts(): Promise<{
+      token: Contract;
+      distributor: Contract;
+    }> {
+      const token: Contract = (await tokenFactory.deploy()) as Contract;
+      await token.waitForDeployment();
+
+      const distributor: Contract = await upgrades.deployProxy(distributorV1Factory, [
+        pauser.address,
+        upgrader.address,
+        deployer.address, // admin role
+        await token.getAddress()
+      ]);
+      await distributor.waitForDeployment();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+
+      // a self-signed claim, as accepted by the initial release
+      const signature = await createLegacySignature(user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+      await getTx((distributor.connect(user) as Contract).claimReward(REWARD_AMOUNT, 0, signature));
+
+      return {
+        token,
+        distributor
+      };
+    }
+
+    it("Preserves the state and requires an authorized signer afterwards", async () => {
+      const { token, distributor: distributorV1 } = await loadFixture(deployV1Contracts);
+
+      const distributor: Contract = await upgrades.upgradeProxy(
+        distributorV1,
+        distributorFactory.connect(upgrader),
+        { call: "initializeV2" }
+      );
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+
+      expect(await distributor.token()).to.eq(await token.getAddress());
+      expect(await distributor.getNonce(user.address)).to.eq(1);
+      const legacySignature = await createLegacySignature(user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+      expect(await distributor.getSignatureUsedStatus(legacySignature)).to.eq(true);
+      expect(await distributor.isSigner(signer.address)).to.eq(false);
+      expect(await distributor.isTokenAllowed(await token.getAddress())).to.eq(true);
+      const [, name, version] = await distributor.eip712Domain();
+      expect(name).to.eq(DOMAIN_NAME);
+      expect(version).to.eq(DOMAIN_VERSION);
+
+      const selfSignedSignature = await createSignature(distributor, user, REWARD_AMOUNT, 1, HARDHAT_CHAIN_ID, user);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 1, VALID_AFTER, VALID_UNTIL, selfSignedSignature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+
+      // Signers are added through operations, once the contract holds the DEFAULT_ADMIN_ROLE.
+      await getTx(distributor.initializeV3());
+      await getTx(executeOperation(distributor, "addSigner", [signer.address]));
+
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT, 1, HARDHAT_CHAIN_ID);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 1, VALID_AFTER, VALID_UNTIL, signature))
+        .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, await token.getAddress(), REWARD_AMOUNT);
+      expect(await distributor.getNonce(user.address)).to.eq(2);
+    });
+
+    it("Keeps rejecting signatures used before the upgrade", async () => {
+      const { distributor: distributorV1 } = await loadFixture(deployV1Contracts);
+      const distributor: Contract = await upgrades.upgradeProxy(
+        distributorV1,
+        distributorFactory.connect(upgrader),
+        { call: "initializeV2" }
+      );
+      const legacySignature = await createLegacySignature(user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+
+      await expect((distributor.connect(user) as Contract).claimReward(
+        await distributor.token(),
+        REWARD_AMOUNT,
+        1,
+        VALID_AFTER,
+        VALID_UNTIL,
+        legacySignature
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_SIGNATURE_ALREADY_USED);
+    });
+
+    it("'initializeV2()' is reverted if called second time", async () => {
+      const { distributor: distributorV1 } = await loadFixture(deployV1Contracts);
+      const distributor: Contract = await upgrades.upgradeProxy(
+        distributorV1,
+        distributorFactory.connect(upgrader),
+        { call: "initializeV2" }
+      );
+
+      await expect(distributor.initializeV2())
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_INITIALIZATION);
+    });
+
+    it("'initializeV3()' hands the sensitive operations to the contract once", async () => {
+      const { distributor: distributorV1 } = await loadFixture(deployV1Contracts);
+      const distributor: Contract = await upgrades.upgradeProxy(
+        distributorV1,
+        distributorFactory.connect(upgrader),
+        { call: "initializeV2" }
+      );
+      const distributorAddress = await distributor.getAddress();
+
+      expect(await distributor.hasRole(DEFAULT_ADMIN_ROLE, distributorAddress)).to.eq(false);
+
+      await expect(distributor.initializeV3())
+        .to.emit(distributor, EVENT_NAME_OPERATION_DELAY_CHANGED)
+        .withArgs(OPERATION_DELAY);
+
+      expect(await distributor.hasRole(DEFAULT_ADMIN_ROLE, distributorAddress)).to.eq(true);
+      expect(await distributor.operationDelay()).to.eq(OPERATION_DELAY);
+      await expect(distributor.initializeV3())
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_INITIALIZATION);
     });
   });
 
@@ -208,38 +522,215 @@ describe("Contract 'FundsDistributor'", async () => {
     it("Executes as expected and changes the token address", async () => {
       const { distributor } = await loadFixture(deployContracts);
 
-      await expect(distributor.configureTokenAddress(random.address))
+      await expect(executeOperation(distributor, "configureTokenAddress", [random.address]))
         .to.emit(distributor, EVENT_NAME_TOKEN_ADDRESS_CONFIGURED)
         .withArgs(random.address);
 
       expect(await distributor.token()).to.eq(random.address);
     });
 
-    it("Is reverted if the caller does not have admin role", async () => {
+    it("Allows the new token and keeps the previous one allowed", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+
+      await expect(executeOperation(distributor, "configureTokenAddress", [random.address]))
+        .to.emit(distributor, EVENT_NAME_TOKEN_ALLOWED)
+        .withArgs(random.address);
+
+      expect(await distributor.isTokenAllowed(random.address)).to.eq(true);
+      expect(await distributor.isTokenAllowed(await token.getAddress())).to.eq(true);
+    });
+
+    it("Is reverted if not called through an operation scheduled by the admin", async () => {
       const { distributor } = await loadFixture(deployContracts);
       const distributorConnectedToAttacker = distributor.connect(attacker) as Contract;
 
-      await expect(distributorConnectedToAttacker.configureTokenAddress(attacker.address))
+      await expect(distributor.configureTokenAddress(random.address))
+        .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+        .withArgs(deployer.address, DEFAULT_ADMIN_ROLE);
+      await expect(distributorConnectedToAttacker.scheduleOperation(
+        distributor.interface.encodeFunctionData("configureTokenAddress", [attacker.address])
+      ))
         .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
         .withArgs(attacker.address, ADMIN_ROLE);
     });
 
     it("Is reverted if the same token address is already configured", async () => {
       const { distributor } = await loadFixture(deployContracts);
-      await distributor.configureTokenAddress(random.address);
+      await getTx(executeOperation(distributor, "configureTokenAddress", [random.address]));
 
-      await expect(distributor.configureTokenAddress(random.address))
+      await expect(executeOperation(distributor, "configureTokenAddress", [random.address]))
           .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ALREADY_CONFIGURED);
     });
 
     it("Is reverted if the new token address is zero", async () => {
       const { distributor } = await loadFixture(deployContracts);
 
-      await expect(distributor.configureTokenAddress(ethers.ZeroAddress))
+      await expect(executeOperation(distributor, "configureTokenAddress", [ethers.ZeroAddress]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ZERO_ADDRESS);
+    });
+  });
+
+  describe("Function 'allowToken()'", async () => {
+    it("Executes as expected and allows the token", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(executeOperation(distributor, "allowToken", [random.address]))
+        .to.emit(distributor, EVENT_NAME_TOKEN_ALLOWED)
+        .withArgs(random.address);
+
+      expect(await distributor.isTokenAllowed(random.address)).to.eq(true);
+      expect(await distributor.token()).not.to.eq(random.address);
+    });
+
+    it("Is reverted if not called through an operation scheduled by the admin", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expectOnlyThroughOperation(distributor, "allowToken", [random.address]);
+    });
+
+    it("Is reverted if the token is already allowed", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+
+      await expect(executeOperation(distributor, "allowToken", [await token.getAddress()]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ALREADY_CONFIGURED);
+    });
+
+    it("Is reverted if the token address is zero", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(executeOperation(distributor, "allowToken", [ethers.ZeroAddress]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ZERO_ADDRESS);
+    });
+  });
+
+  describe("Function 'disallowToken()'", async () => {
+    it("Executes as expected and disallows the token", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+
+      await expect(distributor.disallowToken(await token.getAddress()))
+        .to.emit(distributor, EVENT_NAME_TOKEN_DISALLOWED)
+        .withArgs(await token.getAddress());
+
+      expect(await distributor.isTokenAllowed(await token.getAddress())).to.eq(false);
+    });
+
+    it("Is reverted if the caller does not have admin role", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToAttacker = distributor.connect(attacker) as Contract;
+
+      await expect(distributorConnectedToAttacker.disallowToken(await token.getAddress()))
+        .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+        .withArgs(attacker.address, ADMIN_ROLE);
+    });
+
+    it("Is reverted if the token is not allowed", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(distributor.disallowToken(random.address))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_TOKEN_NOT_ALLOWED);
+    });
+  });
+
+  describe("Function 'addSigner()'", async () => {
+    it("Executes as expected and authorizes the signer", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(executeOperation(distributor, "addSigner", [random.address]))
+        .to.emit(distributor, EVENT_NAME_SIGNER_ADDED)
+        .withArgs(random.address);
+
+      expect(await distributor.isSigner(random.address)).to.eq(true);
+      expect(await distributor.hasRole(SIGNER_ROLE, random.address)).to.eq(true);
+    });
+
+    it("Is reverted if not called through an operation scheduled by the admin", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expectOnlyThroughOperation(distributor, "addSigner", [attacker.address]);
+    });
+
+    it("Is reverted unless executed as a ready operation", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const data = distributor.interface.encodeFunctionData("addSigner", [random.address]);
+      await getTx(distributor.scheduleOperation(data));
+      const readyAt = await distributor.getOperationReadyAt(ethers.keccak256(data));
+
+      await expect(distributor.executeOperation(data))
+        .to.be.revertedWithCustomError(distributor, REVERT_ERROR_OPERATION_NOT_READY)
+        .withArgs(readyAt);
+      expect(await distributor.isSigner(random.address)).to.eq(false);
+
+      await time.increaseTo(readyAt);
+      await getTx(distributor.executeOperation(data));
+      expect(await distributor.isSigner(random.address)).to.eq(true);
+    });
+
+    it("Is reverted if the signer is already authorized", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(executeOperation(distributor, "addSigner", [signer.address]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ALREADY_CONFIGURED);
+    });
+
+    it("Is reverted if the signer address is zero", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(executeOperation(distributor, "addSigner", [ethers.ZeroAddress]))
           .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ZERO_ADDRESS);
     });
   });
 
+  describe("Function 'removeSigner()'", async () => {
+    it("Executes as expected and revokes the signer", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(distributor.removeSigner(signer.address))
+        .to.emit(distributor, EVENT_NAME_SIGNER_REMOVED)
+        .withArgs(signer.address);
+
+      expect(await distributor.isSigner(signer.address)).to.eq(false);
+    });
+
+    it("Is reverted if the caller does not have admin role", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToAttacker = distributor.connect(attacker) as Contract;
+
+      await expect(distributorConnectedToAttacker.removeSigner(signer.address))
+        .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+        .withArgs(attacker.address, ADMIN_ROLE);
+    });
+
+    it("Is reverted if the address is not an authorized signer", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(distributor.removeSigner(random.address))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_SIGNER);
+    });
+  });
+
+  describe("Functions 'receive()' and 'deposit()'", async () => {
+    it("'receive()' accepts native currency and emits the funding event", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const tx = random.sendTransaction({ to: await distributor.getAddress(), value: SUPPLY_AMOUNT });
+
+      await expect(tx)
+        .to.emit(distributor, EVENT_NAME_FUNDED)
+        .withArgs(random.address, NATIVE_TOKEN, SUPPLY_AMOUNT);
+      await expect(tx).to.changeEtherBalances([random, distributor], [-SUPPLY_AMOUNT, SUPPLY_AMOUNT]);
+    });
+
+    it("'deposit()' accepts native currency and emits the funding event", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToRandom = distributor.connect(random) as Contract;
+      const tx = distributorConnectedToRandom.deposit({ value: SUPPLY_AMOUNT });
+
+      await expect(tx)
+        .to.emit(distributor, EVENT_NAME_FUNDED)
+        .withArgs(random.address, NATIVE_TOKEN, SUPPLY_AMOUNT);
+      await expect(tx).to.changeEtherBalances([random, distributor], [-SUPPLY_AMOUNT, SUPPLY_AMOUNT]);
+    });
+  });
+
   describe("Function 'claimReward()'", async () => {
     it("Executes as expected", async () => {
       const { token, distributor } = await loadFixture(deployContracts);
@@ -248,26 +739,30 @@ describe("Contract 'FundsDistributor'", async () => {
       const startingNonce = 0;
 
       const signature = await createSignature(
+        distributor,
         user,
         REWARD_AMOUNT,
         startingNonce,
         HARDHAT_CHAIN_ID
       );
 
-      // user, amount, nonce, chainId, signature
-      expect(await distributor.verifySignature(user.address, REWARD_AMOUNT, startingNonce, HARDHAT_CHAIN_ID, signature))
+      // user, token, amount, nonce, validAfter, validUntil, chainId, signature
+      expect(await distributor.verifySignature(user.address, await distributor.token(), REWARD_AMOUNT, startingNonce, VALID_AFTER, VALID_UNTIL, HARDHAT_CHAIN_ID, signature))
           .to.eq(true);
 
       const tx = distributorConnectedToUser.claimReward(
+        await token.getAddress(),
         REWARD_AMOUNT,
         startingNonce,
+        VALID_AFTER,
+        VALID_UNTIL,
         signature
       );
 
       // check event and balance update
       await expect(tx)
           .to.emit(distributor, EVENT_NAME_REWARD_PAID)
-        .withArgs(user.address, REWARD_AMOUNT);
+        .withArgs(user.address, await token.getAddress(), REWARD_AMOUNT);
 
       await expect(tx).to.changeTokenBalances(
         token,
@@ -276,26 +771,41 @@ describe("Contract 'FundsDistributor'", async () => {
       );
 
       // check new stored data
-      expect(await distributor.getSignatureUsedStatus(signature)).to.eq(true);
+      const digest = await distributor.hashClaim(user.address, await token.getAddress(), REWARD_AMOUNT, startingNonce, VALID_AFTER, VALID_UNTIL);
+      expect(await distributor.isClaimUsed(digest)).to.eq(true);
       expect(await distributor.getNonce(user.address)).to.eq(startingNonce + 1);
     });
 
+    it("Accepts the compact encoding of the signature", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+      const compactSignature = ethers.Signature.from(signature).compactSerialized;
+      expect(ethers.dataLength(compactSignature)).to.eq(64);
+
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, compactSignature))
+        .to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+    });
+
     it("Is reverted if nonce is invalid", async () => {
       const { distributor } = await loadFixture(deployContracts);
       const signature = await createSignature(
+        distributor,
         user,
         REWARD_AMOUNT,
         322,
         HARDHAT_CHAIN_ID
       );
 
-      await expect(distributor.claimReward(REWARD_AMOUNT, 322, signature))
+      await expect(distributor.claimReward(await distributor.token(), REWARD_AMOUNT, 322, VALID_AFTER, VALID_UNTIL, signature))
           .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_NONCE);
     });
 
-    it("Is reverted if the caller is not the signer", async () => {
+    it("Is reverted if the caller is not the voucher recipient", async () => {
       const { distributor } = await loadFixture(deployContracts);
       const signature = await createSignature(
+        distributor,
         user,
         REWARD_AMOUNT,
         0,
@@ -303,85 +813,2265 @@ describe("Contract 'FundsDistributor'", async () => {
       );
       const distributorConnectedToAttacker = distributor.connect(attacker) as Contract;
 
-      await expect(distributorConnectedToAttacker.claimReward(REWARD_AMOUNT, 0, signature))
+      await expect(distributorConnectedToAttacker.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
           .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
     });
 
     it("Is reverted if the amount is not the signed one", async () => {
       const { distributor } = await loadFixture(deployContracts);
       const signature = await createSignature(
+        distributor,
         deployer,
         REWARD_AMOUNT,
         0,
         HARDHAT_CHAIN_ID
       );
 
-      await expect(distributor.claimReward(REWARD_AMOUNT + 1, 0, signature))
+      await expect(distributor.claimReward(await distributor.token(), REWARD_AMOUNT + 1, 0, VALID_AFTER, VALID_UNTIL, signature))
           .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
     });
 
-    it("Is reverted if signature already used", async () => {
+    it("Is reverted if the voucher is signed by the user", async () => {
       const { token, distributor } = await loadFixture(deployContracts);
       const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
       const signature = await createSignature(
+        distributor,
         user,
         REWARD_AMOUNT,
         0,
-        HARDHAT_CHAIN_ID
+        HARDHAT_CHAIN_ID,
+        user
       );
-      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
 
-      await distributorConnectedToUser.claimReward(REWARD_AMOUNT, 0, signature);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
 
-      await expect(distributorConnectedToUser.claimReward(REWARD_AMOUNT, 1, signature))
-          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_SIGNATURE_ALREADY_USED);
+    it("Is reverted if the voucher is signed by an unknown signer", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID,
+        random
+      );
+
+      expect(await distributor.verifySignature(user.address, await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, HARDHAT_CHAIN_ID, signature))
+          .to.eq(false);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
     });
 
-    it("Is reverted if the contract is paused", async () => {
-      const { distributor } = await loadFixture(deployContracts);
+    it("Is reverted if the signer of the voucher has been removed", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
       const distributorConnectedToUser = distributor.connect(user) as Contract;
-      const distributorConnectedToPauser = distributor.connect(pauser) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
       const signature = await createSignature(
+        distributor,
         user,
         REWARD_AMOUNT,
         0,
         HARDHAT_CHAIN_ID
       );
 
-      await distributorConnectedToPauser.pause();
+      await distributor.removeSigner(signer.address);
 
-      await expect(distributorConnectedToUser.claimReward(REWARD_AMOUNT, 0, signature))
-          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
     });
 
-    it("Is reverted if contract does not have enough funds", async () => {
+    it("Is reverted if the voucher was signed for another distributor", async () => {
       const { token, distributor } = await loadFixture(deployContracts);
+      const { distributor: otherDistributor } = await deployContracts();
       const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
       const signature = await createSignature(
+        otherDistributor,
         user,
         REWARD_AMOUNT,
         0,
         HARDHAT_CHAIN_ID
       );
 
-      await expect(distributorConnectedToUser.claimReward(REWARD_AMOUNT, 0, signature))
-        .to.be.revertedWithCustomError(token, REVERT_ERROR_ERC20_BALANCE_EXCEEDED)
-        .withArgs(await distributor.getAddress(), 0, REWARD_AMOUNT);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
     });
-  });
 
-  describe("Function 'verifySignature()'", async () => {
-    it("Is reverted if the chain id is invalid", async () => {
-      const { distributor } = await loadFixture(deployContracts);
+    it("Executes as expected at the boundaries of the validity window", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const first = getValidityWindow(VOUCHER_TTL, (await time.latest()) + 10);
+      const second = getValidityWindow(VOUCHER_TTL, first.validUntil);
+      const firstSignature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID,
+        signer,
+        first.validAfter,
+        first.validUntil
+      );
+      const secondSignature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        1,
+        HARDHAT_CHAIN_ID,
+        signer,
+        second.validAfter,
+        second.validUntil
+      );
+
+      await time.setNextBlockTimestamp(first.validAfter);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, first.validAfter, first.validUntil, firstSignature))
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID);
+
+      await time.setNextBlockTimestamp(second.validUntil);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 1, second.validAfter, second.validUntil, secondSignature))
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID);
+    });
+
+    it("Is reverted if the voucher is not yet valid", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const { validAfter, validUntil } = getValidityWindow(VOUCHER_TTL, (await time.latest()) + 10);
       const signature = await createSignature(
-        deployer,
+        distributor,
+        user,
         REWARD_AMOUNT,
         0,
-        HARDHAT_CHAIN_ID
+        HARDHAT_CHAIN_ID,
+        signer,
+        validAfter,
+        validUntil
       );
 
-      await expect(distributor.verifySignature(user.address, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID + 1, signature))
-          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_CHAIN_ID);
+      await time.setNextBlockTimestamp(validAfter - 1);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, validAfter, validUntil, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_VOUCHER_NOT_YET_VALID);
+    });
+
+    it("Is reverted if the voucher has expired", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const { validAfter, validUntil } = getValidityWindow(VOUCHER_TTL, await time.latest());
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID,
+        signer,
+        validAfter,
+        validUntil
+      );
+
+      await time.setNextBlockTimestamp(validUntil + 1);
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, validAfter, validUntil, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_VOUCHER_EXPIRED);
+    });
+
+    it("Is reverted if the validity window is not the signed one", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const { validAfter, validUntil } = getValidityWindow(VOUCHER_TTL, await time.latest());
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID,
+        signer,
+        validAfter,
+        validUntil
+      );
+
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, validAfter, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
+
+    it("Pays out in the token of the voucher", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const otherToken = (await tokenFactory.deploy()) as Contract;
+      await otherToken.waitForDeployment();
+      const otherTokenAddress = await otherToken.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await otherToken.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "allowToken", [otherTokenAddress]));
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID,
+        signer,
+        VALID_AFTER,
+        VALID_UNTIL,
+        otherTokenAddress
+      );
+
+      const tx = distributorConnectedToUser.claimReward(otherTokenAddress, REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature);
+
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, otherTokenAddress, REWARD_AMOUNT);
+      await expect(tx).to.changeTokenBalances(otherToken, [distributor, user], [-REWARD_AMOUNT, +REWARD_AMOUNT]);
+      await expect(tx).to.changeTokenBalances(token, [distributor, user], [0, 0]);
+    });
+
+    it("Pays out in native currency if the voucher designates it", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await getTx(executeOperation(distributor, "allowToken", [NATIVE_TOKEN]));
+      await distributor.deposit({ value: SUPPLY_AMOUNT });
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID,
+        signer,
+        VALID_AFTER,
+        VALID_UNTIL,
+        NATIVE_TOKEN
+      );
+
+      const tx = distributorConnectedToUser.claimReward(NATIVE_TOKEN, REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature);
+
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, NATIVE_TOKEN, REWARD_AMOUNT);
+      await expect(tx).to.changeEtherBalance(distributor, -REWARD_AMOUNT);
+      await expect(tx).to.changeEtherBalance(user, REWARD_AMOUNT, { includeFee: false });
+    });
+
+    it("Is reverted if the recipient rejects the native currency payout", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const receiver = (await nativeReceiverFactory.deploy(await distributor.getAddress())) as Contract;
+      await receiver.waitForDeployment();
+      const receiverAddress = await receiver.getAddress();
+      await receiver.configure(true, "0x");
+      await getTx(executeOperation(distributor, "allowToken", [NATIVE_TOKEN]));
+      await distributor.deposit({ value: SUPPLY_AMOUNT });
+      const claim = {
+        user: receiverAddress,
+        token: NATIVE_TOKEN,
+        amount: REWARD_AMOUNT,
+        nonce: 0,
+        validAfter: VALID_AFTER,
+        validUntil: VALID_UNTIL
+      };
+      const signature = await signClaim(signer, getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID), claim);
+      const claimData = distributor.interface.encodeFunctionData("claimReward", [
+        NATIVE_TOKEN,
+        REWARD_AMOUNT,
+        0,
+        VALID_AFTER,
+        VALID_UNTIL,
+        signature
+      ]);
+
+      await expect(receiver.execute(claimData))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_NATIVE_TRANSFER_FAILED);
+      expect(await distributor.getNonce(receiverAddress)).to.eq(0);
+    });
+
+    it("Is reverted if the recipient reenters on the native currency payout", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const receiver = (await nativeReceiverFactory.deploy(await distributor.getAddress())) as Contract;
+      await receiver.waitForDeployment();
+      const receiverAddress = await receiver.getAddress();
+      await getTx(executeOperation(distributor, "allowToken", [NATIVE_TOKEN]));
+      await distributor.deposit({ value: SUPPLY_AMOUNT });
+      const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+      const claimData: string[] = [];
+      for (const nonce of [0, 1]) {
+        const claim = {
+          user: receiverAddress,
+          token: NATIVE_TOKEN,
+          amount: REWARD_AMOUNT,
+          nonce,
+          validAfter: VALID_AFTER,
+          validUntil: VALID_UNTIL
+        };
+        const signature = await signClaim(signer, domain, claim);
+        claimData.push(distributor.interface.encodeFunctionData("claimReward", [
+          NATIVE_TOKEN,
+          REWARD_AMOUNT,
+          nonce,
+          VALID_AFTER,
+          VALID_UNTIL,
+          signature
+        ]));
+      }
+      await receiver.configure(false, claimData[1]);
+
+      await expect(receiver.execute(claimData[0]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_NATIVE_TRANSFER_FAILED);
+      expect(await distributor.getNonce(receiverAddress)).to.eq(0);
+    });
+
+    it("Is reverted if the token is not allowed", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID
+      );
+
+      await distributor.disallowToken(await token.getAddress());
+
+      await expect(distributorConnectedToUser.claimReward(await token.getAddress(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_TOKEN_NOT_ALLOWED);
+    });
+
+    it("Is reverted if the token is not the signed one", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "allowToken", [random.address]));
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID,
+        signer,
+        VALID_AFTER,
+        VALID_UNTIL,
+        random.address
+      );
+
+      await expect(distributorConnectedToUser.claimReward(await token.getAddress(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
+
+    it("Is reverted if signature already used", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID
+      );
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+
+      await distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature);
+
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_SIGNATURE_ALREADY_USED);
+    });
+
+    it("Is reverted if the claim was already used with another encoding of the signature", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+      const compactSignature = ethers.Signature.from(signature).compactSerialized;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+
+      await distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature);
+
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, compactSignature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_SIGNATURE_ALREADY_USED);
+    });
+
+    it("Is reverted if the contract is paused", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const distributorConnectedToPauser = distributor.connect(pauser) as Contract;
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID
+      );
+
+      await distributorConnectedToPauser.pause();
+
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+    });
+
+    it("Is reverted if contract does not have enough funds", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const signature = await createSignature(
+        distributor,
+        user,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID
+      );
+
+      await expect(distributorConnectedToUser.claimReward(await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature))
+        .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INSUFFICIENT_FUNDS);
+    });
+  });
+
+  describe("Function 'claimRewardFor()'", async () => {
+    it("Executes as expected and pays the user of the voucher", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToRelayer = distributor.connect(random) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const voucher = await createVoucher(distributor, user, REWARD_AMOUNT, 0);
+
+      const tx = distributorConnectedToRelayer.claimRewardFor(
+        voucher.user,
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      );
+
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, await token.getAddress(), REWARD_AMOUNT);
+      await expect(tx).to.changeTokenBalances(
+        token,
+        [distributor, user, random],
+        [-REWARD_AMOUNT, REWARD_AMOUNT, 0]
+      );
+      expect(await distributor.getNonce(user.address)).to.eq(1);
+      expect(await distributor.getNonce(random.address)).to.eq(0);
+    });
+
+    it("Is reverted if the relayer redirects the reward", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToAttacker = distributor.connect(attacker) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const voucher = await createVoucher(distributor, user, REWARD_AMOUNT, 0);
+
+      await expect(distributorConnectedToAttacker.claimRewardFor(
+        attacker.address,
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
+
+    it("Is reverted if the relayer alters the amount", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToAttacker = distributor.connect(attacker) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const voucher = await createVoucher(distributor, user, REWARD_AMOUNT, 0);
+
+      await expect(distributorConnectedToAttacker.claimRewardFor(
+        voucher.user,
+        voucher.token,
+        REWARD_AMOUNT * 2,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
+
+    it("Is reverted if the user already claimed the voucher", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const distributorConnectedToRelayer = distributor.connect(random) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const voucher = await createVoucher(distributor, user, REWARD_AMOUNT, 0);
+      await distributorConnectedToUser.claimReward(
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      );
+
+      await expect(distributorConnectedToRelayer.claimRewardFor(
+        voucher.user,
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_SIGNATURE_ALREADY_USED);
+    });
+
+    it("Is reverted if the contract is paused", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToRelayer = distributor.connect(random) as Contract;
+      const voucher = await createVoucher(distributor, user, REWARD_AMOUNT, 0);
+
+      await (distributor.connect(pauser) as Contract).pause();
+
+      await expect(distributorConnectedToRelayer.claimRewardFor(
+        voucher.user,
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+    });
+  });
+
+  describe("Function 'claimRewards()'", async () => {
+    it("Executes as expected and pays out once per token", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "allowToken", [NATIVE_TOKEN]));
+      await distributor.deposit({ value: SUPPLY_AMOUNT });
+      await distributorConnectedToUser.claimReward(
+        tokenAddress,
+        REWARD_AMOUNT,
+        0,
+        VALID_AFTER,
+        VALID_UNTIL,
+        await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID)
+      );
+      const vouchers = [
+        await createVoucher(distributor, user, REWARD_AMOUNT, 3),
+        await createVoucher(distributor, user, REWARD_AMOUNT, 0), // already claimed
+        await createVoucher(distributor, user, REWARD_AMOUNT + 1, 1),
+        await createVoucher(distributor, user, REWARD_AMOUNT, 2, NATIVE_TOKEN),
+        await createVoucher(distributor, user, REWARD_AMOUNT, 5) // not claimable before nonce 4
+      ];
+      const batch = assembleBatch(user.address, vouchers, await distributor.getNonce(user.address));
+      expect(batch.map((claim) => claim.nonce)).to.deep.eq([1n, 2n, 3n]);
+
+      const tx = distributorConnectedToUser.claimRewards(batch);
+
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, tokenAddress, REWARD_AMOUNT + 1)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, NATIVE_TOKEN, REWARD_AMOUNT)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, tokenAddress, REWARD_AMOUNT);
+      await expect(tx).to.changeTokenBalances(
+        token,
+        [distributor, user],
+        [-(2 * REWARD_AMOUNT + 1), 2 * REWARD_AMOUNT + 1]
+      );
+      await expect(tx).to.changeEtherBalance(distributor, -REWARD_AMOUNT);
+
+      const txReceipt = await (await tx).wait();
+      const transferLogs = txReceipt.logs.filter((log: { address: string }) => log.address === tokenAddress);
+      expect(transferLogs.length).to.eq(1);
+      expect(await distributor.getNonce(user.address)).to.eq(4);
+    });
+
+    it("Costs less gas than claiming the vouchers one by one", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const distributorConnectedToRandom = distributor.connect(random) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const batchSize = 5;
+
+      let individualGas = 0n;
+      for (let nonce = 0; nonce < batchSize; nonce++) {
+        const voucher = await createVoucher(distributor, user, REWARD_AMOUNT, nonce);
+        const txReceipt = await getTx(distributorConnectedToUser.claimReward(
+          voucher.token,
+          voucher.amount,
+          voucher.nonce,
+          voucher.validAfter,
+          voucher.validUntil,
+          voucher.signature
+        ));
+        individualGas += BigInt(txReceipt.gasUsed.toString());
+      }
+
+      const vouchers: SignedClaim[] = [];
+      for (let nonce = 0; nonce < batchSize; nonce++) {
+        vouchers.push(await createVoucher(distributor, random, REWARD_AMOUNT, nonce));
+      }
+      const batch = assembleBatch(random.address, vouchers, await distributor.getNonce(random.address));
+      const batchReceipt = await getTx(distributorConnectedToRandom.claimRewards(batch));
+
+      expect(BigInt(batchReceipt.gasUsed.toString())).to.be.lessThan(individualGas);
+    });
+
+    it("Is reverted if the batch is empty", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(distributor.claimRewards([]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_EMPTY_BATCH);
+    });
+
+    it("Is reverted if the nonces are not consecutive", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const batch = [
+        await createVoucher(distributor, user, REWARD_AMOUNT, 0),
+        await createVoucher(distributor, user, REWARD_AMOUNT, 2)
+      ];
+
+      await expect(distributorConnectedToUser.claimRewards(batch))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_NONCE);
+      expect(await distributor.getNonce(user.address)).to.eq(0);
+    });
+
+    it("Is reverted as a whole if one of the signatures is invalid", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const batch = assembleBatch(user.address, [
+        await createVoucher(distributor, user, REWARD_AMOUNT, 0),
+        await createVoucher(distributor, user, REWARD_AMOUNT, 1)
+      ], 0);
+      batch[1].amount = REWARD_AMOUNT + 1;
+
+      await expect(distributorConnectedToUser.claimRewards(batch))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+      expect(await distributor.getNonce(user.address)).to.eq(0);
+      expect(await token.balanceOf(user.address)).to.eq(0);
+    });
+
+    it("Is reverted if the contract is paused", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const batch = assembleBatch(user.address, [await createVoucher(distributor, user, REWARD_AMOUNT, 0)], 0);
+
+      await (distributor.connect(pauser) as Contract).pause();
+
+      await expect(distributorConnectedToUser.claimRewards(batch))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+    });
+  });
+
+  describe("Function 'claimCumulativeReward()'", async () => {
+    it("Pays the unclaimed part of the entitlement and supersedes older vouchers", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const olderSignature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT);
+      const newerSignature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT * 3);
+      const latestSignature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT * 4);
+
+      const tx = distributorConnectedToUser.claimCumulativeReward(
+        tokenAddress,
+        REWARD_AMOUNT * 3,
+        VALID_AFTER,
+        VALID_UNTIL,
+        newerSignature
+      );
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, tokenAddress, REWARD_AMOUNT * 3);
+      await expect(tx).to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT * 3, REWARD_AMOUNT * 3]);
+      expect(await distributor.getCumulativeClaimed(user.address, tokenAddress)).to.eq(REWARD_AMOUNT * 3);
+      expect(await distributor.getCumulativeClaimable(user.address, tokenAddress, REWARD_AMOUNT)).to.eq(0);
+      expect(await distributor.getCumulativeClaimable(user.address, tokenAddress, REWARD_AMOUNT * 4))
+          .to.eq(REWARD_AMOUNT);
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(tokenAddress, REWARD_AMOUNT, VALID_AFTER, VALID_UNTIL, olderSignature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_NOTHING_TO_CLAIM);
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(tokenAddress, REWARD_AMOUNT * 4, VALID_AFTER, VALID_UNTIL, latestSignature))
+        .to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+      expect(await distributor.getCumulativeClaimed(user.address, tokenAddress)).to.eq(REWARD_AMOUNT * 4);
+    });
+
+    it("Tracks the claimed amount separately per token and does not use the nonce", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "allowToken", [NATIVE_TOKEN]));
+      await distributor.deposit({ value: SUPPLY_AMOUNT });
+      const signature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT, signer, NATIVE_TOKEN);
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(NATIVE_TOKEN, REWARD_AMOUNT, VALID_AFTER, VALID_UNTIL, signature))
+        .to.changeEtherBalance(distributor, -REWARD_AMOUNT);
+
+      expect(await distributor.getCumulativeClaimed(user.address, NATIVE_TOKEN)).to.eq(REWARD_AMOUNT);
+      expect(await distributor.getCumulativeClaimed(user.address, await token.getAddress())).to.eq(0);
+      expect(await distributor.getNonce(user.address)).to.eq(0);
+    });
+
+    it("Is reverted if the voucher is replayed", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT);
+      await distributorConnectedToUser.claimCumulativeReward(await token.getAddress(), REWARD_AMOUNT, VALID_AFTER, VALID_UNTIL, signature);
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(await token.getAddress(), REWARD_AMOUNT, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_NOTHING_TO_CLAIM);
+    });
+
+    it("Is reverted if the cumulative amount is not the signed one", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT);
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(await token.getAddress(), REWARD_AMOUNT + 1, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
+
+    it("Is reverted if the voucher is signed by an unknown signer", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT, random);
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(await token.getAddress(), REWARD_AMOUNT, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
+
+    it("Is reverted if the unclaimed part is above the vesting threshold of the token", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "configureVesting", [tokenAddress, REWARD_AMOUNT, VESTING_CLIFF, VESTING_DURATION]));
+      const signature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT * 2);
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(tokenAddress, REWARD_AMOUNT * 2, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_VESTING_THRESHOLD_EXCEEDED);
+
+      await getTx(distributorConnectedToUser.claimCumulativeReward(
+        tokenAddress,
+        REWARD_AMOUNT,
+        VALID_AFTER,
+        VALID_UNTIL,
+        await createCumulativeSignature(distributor, user, REWARD_AMOUNT)
+      ));
+      await expect(distributorConnectedToUser.claimCumulativeReward(tokenAddress, REWARD_AMOUNT * 2, VALID_AFTER, VALID_UNTIL, signature))
+        .to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+    });
+
+    it("Is reverted if the voucher has expired", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const signature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT);
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(await token.getAddress(), REWARD_AMOUNT, VALID_AFTER, VALID_AFTER, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_VOUCHER_EXPIRED);
+    });
+
+    it("Is reverted if the contract is paused", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const signature = await createCumulativeSignature(distributor, user, REWARD_AMOUNT);
+
+      await (distributor.connect(pauser) as Contract).pause();
+
+      await expect(distributorConnectedToUser.claimCumulativeReward(await token.getAddress(), REWARD_AMOUNT, VALID_AFTER, VALID_UNTIL, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+    });
+  });
+
+  describe("Merkle epochs", async () => {
+    function createDistribution(): MerkleDistribution {
+      return buildMerkleDistribution([
+        { address: user.address, amount: BigInt(REWARD_AMOUNT) },
+        { address: random.address, amount: BigInt(REWARD_AMOUNT * 2) },
+        { address: attacker.address, amount: BigInt(REWARD_AMOUNT * 3) }
+      ]);
+    }
+
+    async function publishEpoch(
+      distributor: Contract,
+      distribution: MerkleDistribution,
+      budget: bigint = BigInt(distribution.total),
+    ): Promise<void> {
+      await getTx(executeOperation(distributor, "publishEpoch", [distribution.merkleRoot, await distributor.token(), budget]));
+    }
+
+    describe("Function 'publishEpoch()'", async () => {
+      it("Executes as expected and stores the epoch", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        const distribution = createDistribution();
+        const tokenAddress = await token.getAddress();
+
+        await expect(executeOperation(distributor, "publishEpoch", [distribution.merkleRoot, tokenAddress, distribution.total]))
+          .to.emit(distributor, EVENT_NAME_EPOCH_PUBLISHED)
+          .withArgs(0, distribution.merkleRoot, tokenAddress, distribution.total);
+
+        expect(await distributor.epochCount()).to.eq(1);
+        const epoch = await distributor.getEpoch(0);
+        expect(epoch.merkleRoot).to.eq(distribution.merkleRoot);
+        expect(epoch.token).to.eq(tokenAddress);
+        expect(epoch.budget).to.eq(distribution.total);
+        expect(epoch.claimed).to.eq(0);
+      });
+
+      it("Is reverted if not called through an operation scheduled by the admin", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const distribution = createDistribution();
+
+        await expectOnlyThroughOperation(distributor, "publishEpoch", [distribution.merkleRoot, await distributor.token(), 1]);
+      });
+
+      it("Is reverted if the root is zero", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+
+        await expect(executeOperation(distributor, "publishEpoch", [ethers.ZeroHash, await distributor.token(), 1]))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_MERKLE_ROOT);
+      });
+
+      it("Is reverted if the token is not allowed", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const distribution = createDistribution();
+
+        await expect(executeOperation(distributor, "publishEpoch", [distribution.merkleRoot, random.address, 1]))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_TOKEN_NOT_ALLOWED);
+      });
+    });
+
+    describe("Function 'claimEpochReward()'", async () => {
+      it("Executes as expected and pays the user of the leaf", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        const distributorConnectedToRandom = distributor.connect(random) as Contract;
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        const distribution = createDistribution();
+        await publishEpoch(distributor, distribution);
+        const { index, amount, proof } = distribution.proofs[0];
+
+        const tx = distributorConnectedToRandom.claimEpochReward(0, index, user.address, amount, proof);
+
+        await expect(tx)
+            .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+          .withArgs(user.address, await token.getAddress(), amount)
+            .to.emit(distributor, EVENT_NAME_EPOCH_REWARD_CLAIMED)
+          .withArgs(0, index, user.address);
+        await expect(tx).to.changeTokenBalances(token, [distributor, user, random], [-REWARD_AMOUNT, REWARD_AMOUNT, 0]);
+        expect(await distributor.isEpochRewardClaimed(0, index)).to.eq(true);
+        expect((await distributor.getEpoch(0)).claimed).to.eq(amount);
+      });
+
+      it("Is reverted if the leaf is claimed twice", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        const distribution = createDistribution();
+        await publishEpoch(distributor, distribution);
+        const { index, amount, proof } = distribution.proofs[0];
+        await getTx(distributor.claimEpochReward(0, index, user.address, amount, proof));
+
+        await expect(distributor.claimEpochReward(0, index, user.address, amount, proof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_EPOCH_REWARD_ALREADY_CLAIMED);
+      });
+
+      it("Is reverted if the proof is wrong", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        const distribution = createDistribution();
+        await publishEpoch(distributor, distribution);
+        const { index, amount } = distribution.proofs[0];
+        const otherProof = distribution.proofs[1].proof;
+
+        await expect(distributor.claimEpochReward(0, index, user.address, amount, otherProof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_MERKLE_PROOF);
+      });
+
+      it("Is reverted if the amount or the user is not the one of the leaf", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        const distribution = createDistribution();
+        await publishEpoch(distributor, distribution);
+        const { index, amount, proof } = distribution.proofs[0];
+
+        await expect(distributor.claimEpochReward(0, index, user.address, BigInt(amount) + 1n, proof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_MERKLE_PROOF);
+        await expect(distributor.claimEpochReward(0, index, attacker.address, amount, proof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_MERKLE_PROOF);
+      });
+
+      it("Is reverted if the claim exceeds the budget of the epoch", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        const distribution = createDistribution();
+        await publishEpoch(distributor, distribution, BigInt(REWARD_AMOUNT * 3));
+        const [first, second, third] = distribution.proofs;
+        await getTx(distributor.claimEpochReward(0, first.index, first.user, first.amount, first.proof));
+        await getTx(distributor.claimEpochReward(0, second.index, second.user, second.amount, second.proof));
+
+        await expect(distributor.claimEpochReward(0, third.index, third.user, third.amount, third.proof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_EPOCH_BUDGET_EXCEEDED);
+        expect(await distributor.isEpochRewardClaimed(0, third.index)).to.eq(false);
+      });
+
+      it("Is reverted if the amount is above the vesting threshold of the token", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        await getTx(executeOperation(distributor, "configureVesting", [await token.getAddress(), REWARD_AMOUNT, VESTING_CLIFF, VESTING_DURATION]));
+        const distribution = createDistribution();
+        await publishEpoch(distributor, distribution);
+        const [first, second] = distribution.proofs;
+
+        await expect(distributor.claimEpochReward(0, second.index, second.user, second.amount, second.proof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_VESTING_THRESHOLD_EXCEEDED);
+        await expect(distributor.claimEpochReward(0, first.index, first.user, first.amount, first.proof))
+          .to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+      });
+
+      it("Is reverted if the token of the epoch is no longer allowed", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        const distribution = createDistribution();
+        await publishEpoch(distributor, distribution);
+        const { index, amount, proof } = distribution.proofs[0];
+
+        await getTx(distributor.disallowToken(await token.getAddress()));
+
+        await expect(distributor.claimEpochReward(0, index, user.address, amount, proof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_TOKEN_NOT_ALLOWED);
+        expect(await distributor.isEpochRewardClaimed(0, index)).to.eq(false);
+      });
+
+      it("Is reverted if the epoch is unknown", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const { index, amount, proof } = createDistribution().proofs[0];
+
+        await expect(distributor.claimEpochReward(0, index, user.address, amount, proof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_EPOCH);
+      });
+
+      it("Is reverted if the contract is paused", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const distribution = createDistribution();
+        await publishEpoch(distributor, distribution);
+        const { index, amount, proof } = distribution.proofs[0];
+
+        await (distributor.connect(pauser) as Contract).pause();
+
+        await expect(distributor.claimEpochReward(0, index, user.address, amount, proof))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+      });
+    });
+  });
+
+  describe("Function 'hashClaim()'", async () => {
+    it("Matches the EIP-712 digest built off-chain", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+      const claim = {
+        user: user.address,
+        token: await distributor.token(),
+        amount: REWARD_AMOUNT,
+        nonce: 0,
+        validAfter: VALID_AFTER,
+        validUntil: VALID_UNTIL
+      };
+
+      expect(await distributor.hashClaim(claim.user, claim.token, claim.amount, claim.nonce, claim.validAfter, claim.validUntil))
+          .to.eq(hashClaim(domain, claim));
+    });
+  });
+
+  describe("Vesting", async () => {
+    async function deployContractsWithVesting() {
+      const { token, distributor } = await deployContracts();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "configureVesting", [await token.getAddress(), VESTING_THRESHOLD, VESTING_CLIFF, VESTING_DURATION]));
+      return { token, distributor };
+    }
+
+    async function claimVestedReward(distributor: Contract): Promise<number> {
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const signature = await createSignature(distributor, user, VESTED_AMOUNT, 0, HARDHAT_CHAIN_ID);
+      await distributorConnectedToUser.claimReward(
+        await distributor.token(),
+        VESTED_AMOUNT,
+        0,
+        VALID_AFTER,
+        VALID_UNTIL,
+        signature
+      );
+      return await time.latest();
+    }
+
+    it("Configures the vesting policy of a token", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+
+      await expect(executeOperation(distributor, "configureVesting", [tokenAddress, VESTING_THRESHOLD, VESTING_CLIFF, VESTING_DURATION]))
+          .to.emit(distributor, EVENT_NAME_VESTING_POLICY_CONFIGURED)
+        .withArgs(tokenAddress, VESTING_THRESHOLD, VESTING_CLIFF, VESTING_DURATION);
+
+      const policy = await distributor.getVestingPolicy(tokenAddress);
+      expect(policy.threshold).to.eq(VESTING_THRESHOLD);
+      expect(policy.cliff).to.eq(VESTING_CLIFF);
+      expect(policy.duration).to.eq(VESTING_DURATION);
+    });
+
+    it("Rejects a policy with a zero duration or a cliff longer than the duration", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+
+      await expect(executeOperation(distributor, "configureVesting", [tokenAddress, VESTING_THRESHOLD, 0, 0]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_VESTING_POLICY);
+      await expect(executeOperation(distributor, "configureVesting", [tokenAddress, VESTING_THRESHOLD, VESTING_DURATION + 1, VESTING_DURATION]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_VESTING_POLICY);
+      await expect(executeOperation(distributor, "configureVesting", [tokenAddress, 0, 0, 0])).not.to.be.reverted;
+    });
+
+    it("Is reverted if the policy is not configured through an operation scheduled by the admin", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+
+      await expectOnlyThroughOperation(distributor, "configureVesting", [
+        await token.getAddress(),
+        VESTING_THRESHOLD,
+        VESTING_CLIFF,
+        VESTING_DURATION
+      ]);
+    });
+
+    it("Opens a schedule instead of paying out a voucher above the threshold", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithVesting);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const tokenAddress = await token.getAddress();
+      const signature = await createSignature(distributor, user, VESTED_AMOUNT, 0, HARDHAT_CHAIN_ID);
+
+      const tx = distributorConnectedToUser.claimReward(
+        tokenAddress,
+        VESTED_AMOUNT,
+        0,
+        VALID_AFTER,
+        VALID_UNTIL,
+        signature
+      );
+      await expect(tx).to.changeTokenBalances(token, [distributor, user], [0, 0]);
+      await expect(tx).not.to.emit(distributor, EVENT_NAME_REWARD_PAID);
+      const start = await time.latest();
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_VESTING_CREATED)
+        .withArgs(user.address, 0, tokenAddress, VESTED_AMOUNT, start, VESTING_CLIFF, VESTING_DURATION);
+
+      const schedule = await distributor.getVestingSchedule(user.address, 0);
+      expect(schedule.token).to.eq(tokenAddress);
+      expect(schedule.start).to.eq(start);
+      expect(schedule.total).to.eq(VESTED_AMOUNT);
+      expect(schedule.released).to.eq(0);
+      expect(await distributor.getNonce(user.address)).to.eq(1);
+    });
+
+    it("Pays out vouchers up to the threshold directly", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithVesting);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const signature = await createSignature(distributor, user, VESTING_THRESHOLD, 0, HARDHAT_CHAIN_ID);
+
+      const tx = distributorConnectedToUser.claimReward(
+        await token.getAddress(),
+        VESTING_THRESHOLD,
+        0,
+        VALID_AFTER,
+        VALID_UNTIL,
+        signature
+      );
+      await expect(tx).to.changeTokenBalances(token, [distributor, user], [-VESTING_THRESHOLD, VESTING_THRESHOLD]);
+      await expect(tx).not.to.emit(distributor, EVENT_NAME_VESTING_CREATED);
+    });
+
+    it("Vests linearly after the cliff and releases the vested part", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithVesting);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const tokenAddress = await token.getAddress();
+      const start = await claimVestedReward(distributor);
+
+      await time.increaseTo(start + VESTING_CLIFF - 2);
+      expect(await distributor.vestedAmount(user.address, 0)).to.eq(0);
+      await expect(distributorConnectedToUser.release(0)) // mined one second before the cliff
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_NOTHING_TO_CLAIM);
+
+      await time.setNextBlockTimestamp(start + VESTING_DURATION / 2);
+      const tx = distributorConnectedToUser.release(0);
+      const halfAmount = VESTED_AMOUNT / 2;
+      await expect(tx).to.changeTokenBalances(token, [distributor, user], [-halfAmount, halfAmount]);
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, tokenAddress, halfAmount)
+          .to.emit(distributor, EVENT_NAME_VESTING_RELEASED)
+        .withArgs(user.address, 0, halfAmount);
+      expect(await distributor.releasableAmount(user.address, 0)).to.eq(0);
+
+      await time.increaseTo(start + VESTING_DURATION * 2);
+      expect(await distributor.vestedAmount(user.address, 0)).to.eq(VESTED_AMOUNT);
+      expect(await distributor.releasableAmount(user.address, 0)).to.eq(halfAmount);
+      await expect(distributorConnectedToUser.release(0))
+        .to.changeTokenBalances(token, [distributor, user], [-halfAmount, halfAmount]);
+      await expect(distributorConnectedToUser.release(0))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_NOTHING_TO_CLAIM);
+    });
+
+    it("Keeps the terms of open schedules when the policy changes", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithVesting);
+      const data = distributor.interface.encodeFunctionData("configureVesting", [await token.getAddress(), 0, 0, 0]);
+      await getTx(distributor.scheduleOperation(data));
+      await time.increase(OPERATION_DELAY - 100);
+      const start = await claimVestedReward(distributor);
+
+      await time.increase(100);
+      await getTx(distributor.executeOperation(data));
+
+      await time.increaseTo(start + VESTING_DURATION / 4);
+      expect(await distributor.vestedAmount(user.address, 0)).to.eq(VESTED_AMOUNT / 4);
+    });
+
+    it("Leaves vested claims out of the transfers of a batch", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithVesting);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const batch = [
+        await createVoucher(distributor, user, REWARD_AMOUNT, 0),
+        await createVoucher(distributor, user, VESTED_AMOUNT, 1)
+      ];
+
+      const tx = distributorConnectedToUser.claimRewards(batch);
+      await expect(tx).to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_VESTING_CREATED)
+        .withArgs(user.address, 1, await token.getAddress(), VESTED_AMOUNT, await time.latest(), VESTING_CLIFF, VESTING_DURATION);
+      expect((await distributor.getVestingSchedule(user.address, 1)).total).to.eq(VESTED_AMOUNT);
+    });
+
+    it("Is reverted if the schedule does not exist", async () => {
+      const { distributor } = await loadFixture(deployContractsWithVesting);
+
+      await expect((distributor.connect(user) as Contract).release(0))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_NOTHING_TO_CLAIM);
+    });
+
+    it("Is reverted if the contract is paused", async () => {
+      const { distributor } = await loadFixture(deployContractsWithVesting);
+      const start = await claimVestedReward(distributor);
+      await time.increaseTo(start + VESTING_DURATION);
+
+      await (distributor.connect(pauser) as Contract).pause();
+
+      await expect((distributor.connect(user) as Contract).release(0))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+    });
+  });
+
+  describe("Rate limits", async () => {
+    async function deployContractsWithLimits() {
+      const { token, distributor } = await deployContracts();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "configureLimits", [
+        await token.getAddress(),
+        REWARD_AMOUNT * 2,
+        REWARD_AMOUNT * 3,
+        REWARD_AMOUNT * 5,
+        LIMIT_WINDOW
+      ]));
+      return { token, distributor };
+    }
+
+    async function claim(distributor: Contract, recipient: HardhatEthersSigner, amount: number) {
+      const nonce = Number(await distributor.getNonce(recipient.address));
+      const signature = await createSignature(distributor, recipient, amount, nonce, HARDHAT_CHAIN_ID);
+      return (distributor.connect(recipient) as Contract).claimReward(
+        await distributor.token(),
+        amount,
+        nonce,
+        VALID_AFTER,
+        VALID_UNTIL,
+        signature
+      );
+    }
+
+    it("Configures the limits of a token", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+
+      await expect(executeOperation(distributor, "configureLimits", [tokenAddress, 1, 2, 3, LIMIT_WINDOW]))
+          .to.emit(distributor, EVENT_NAME_LIMITS_UPDATED)
+        .withArgs(tokenAddress, 1, 2, 3, LIMIT_WINDOW);
+
+      const limits = await distributor.getRateLimits(tokenAddress);
+      expect(limits.maxPerClaim).to.eq(1);
+      expect(limits.maxPerUser).to.eq(2);
+      expect(limits.maxTotal).to.eq(3);
+      expect(limits.window).to.eq(LIMIT_WINDOW);
+    });
+
+    it("Rejects per-window limits without a window", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+
+      await expect(executeOperation(distributor, "configureLimits", [tokenAddress, 0, REWARD_AMOUNT, 0, 0]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_RATE_LIMITS);
+      await expect(executeOperation(distributor, "configureLimits", [tokenAddress, 0, 0, REWARD_AMOUNT, 0]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_RATE_LIMITS);
+      await expect(executeOperation(distributor, "configureLimits", [tokenAddress, REWARD_AMOUNT, 0, 0, 0])).not.to.be.reverted;
+    });
+
+    it("Is reverted if the limits are not configured through an operation scheduled by the admin", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+
+      await expectOnlyThroughOperation(distributor, "configureLimits", [await token.getAddress(), 1, 0, 0, 0]);
+    });
+
+    it("Does not limit tokens without limits", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+
+      expect(await distributor.getRemainingUserCapacity(user.address, await token.getAddress())).to.eq(ethers.MaxUint256);
+      expect(await distributor.getRemainingGlobalCapacity(await token.getAddress())).to.eq(ethers.MaxUint256);
+    });
+
+    it("Rejects a claim above the per-claim limit", async () => {
+      const { distributor } = await loadFixture(deployContractsWithLimits);
+
+      await expect(claim(distributor, user, REWARD_AMOUNT * 2 + 1))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_CLAIM_LIMIT_EXCEEDED);
+    });
+
+    it("Blocks a burst of valid vouchers of a user and releases the limit over the window", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithLimits);
+      const tokenAddress = await token.getAddress();
+
+      await claim(distributor, user, REWARD_AMOUNT * 2);
+      await claim(distributor, user, REWARD_AMOUNT);
+      const claimedAt = await time.latest();
+      expect(await distributor.getRemainingUserCapacity(user.address, tokenAddress)).to.eq(0);
+      await expect(claim(distributor, user, 1))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_USER_LIMIT_EXCEEDED);
+      expect(await distributor.getRemainingUserCapacity(random.address, tokenAddress)).to.eq(REWARD_AMOUNT * 2);
+
+      await time.increaseTo(claimedAt + LIMIT_WINDOW / 3);
+
+      expect(await distributor.getRemainingUserCapacity(user.address, tokenAddress)).to.eq(REWARD_AMOUNT);
+      await expect(claim(distributor, user, REWARD_AMOUNT + 1))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_USER_LIMIT_EXCEEDED);
+
+      await time.increaseTo(claimedAt + LIMIT_WINDOW);
+
+      expect(await distributor.getRemainingUserCapacity(user.address, tokenAddress)).to.eq(REWARD_AMOUNT * 3);
+      await expect(claim(distributor, user, REWARD_AMOUNT))
+        .to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+    });
+
+    it("Does not reset the limits at window boundaries", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithLimits);
+      const tokenAddress = await token.getAddress();
+      const now = await time.latest();
+      const boundary = now - now % LIMIT_WINDOW + 2 * LIMIT_WINDOW;
+
+      await time.setNextBlockTimestamp(boundary - 2);
+      await claim(distributor, user, REWARD_AMOUNT * 2);
+      await time.setNextBlockTimestamp(boundary - 1);
+      await claim(distributor, user, REWARD_AMOUNT);
+      await time.setNextBlockTimestamp(boundary + 1);
+
+      await expect(claim(distributor, user, REWARD_AMOUNT))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_USER_LIMIT_EXCEEDED);
+      expect(await distributor.getRemainingUserCapacity(user.address, tokenAddress)).to.eq(0);
+    });
+
+    it("Caps the total outflow across users and releases it over the window", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithLimits);
+      const tokenAddress = await token.getAddress();
+
+      await claim(distributor, user, REWARD_AMOUNT * 2);
+      await claim(distributor, user, REWARD_AMOUNT);
+      await claim(distributor, random, REWARD_AMOUNT * 2);
+      const claimedAt = await time.latest();
+      expect(await distributor.getRemainingGlobalCapacity(tokenAddress)).to.eq(0);
+      await expect(claim(distributor, random, 1))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_GLOBAL_LIMIT_EXCEEDED);
+
+      await time.increaseTo(claimedAt + LIMIT_WINDOW);
+
+      expect(await distributor.getRemainingGlobalCapacity(tokenAddress)).to.eq(REWARD_AMOUNT * 5);
+      await expect(claim(distributor, random, REWARD_AMOUNT)).not.to.be.reverted;
+      expect(await distributor.getRemainingGlobalCapacity(tokenAddress)).to.eq(REWARD_AMOUNT * 4);
+    });
+
+    it("Counts batches and cumulative claims against the limits", async () => {
+      const { token, distributor } = await loadFixture(deployContractsWithLimits);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const tokenAddress = await token.getAddress();
+
+      await expect(distributorConnectedToUser.claimRewards([
+        await createVoucher(distributor, user, REWARD_AMOUNT * 2, 0),
+        await createVoucher(distributor, user, REWARD_AMOUNT * 2, 1)
+      ])).to.be.revertedWithCustomError(distributor, REVERT_ERROR_USER_LIMIT_EXCEEDED);
+
+      await distributorConnectedToUser.claimCumulativeReward(
+        tokenAddress,
+        REWARD_AMOUNT * 2,
+        VALID_AFTER,
+        VALID_UNTIL,
+        await createCumulativeSignature(distributor, user, REWARD_AMOUNT * 2)
+      );
+      expect(await distributor.getRemainingUserCapacity(user.address, tokenAddress)).to.eq(REWARD_AMOUNT);
+    });
+  });
+
+  describe("Function 'revokeVouchers()'", async () => {
+    it("Revokes vouchers so that they can no longer be claimed", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const tokenAddress = await token.getAddress();
+      const voucher = await createVoucher(distributor, user, REWARD_AMOUNT, 0);
+      const claimHash = await distributor.hashClaim(user.address, tokenAddress, REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL);
+      const cumulativeHash = await distributor.hashCumulativeClaim(
+        user.address,
+        tokenAddress,
+        REWARD_AMOUNT,
+        VALID_AFTER,
+        VALID_UNTIL
+      );
+
+      await expect(distributor.revokeVouchers([claimHash, cumulativeHash]))
+          .to.emit(distributor, EVENT_NAME_VOUCHER_REVOKED)
+        .withArgs(claimHash)
+          .to.emit(distributor, EVENT_NAME_VOUCHER_REVOKED)
+        .withArgs(cumulativeHash);
+      expect(await distributor.isClaimRevoked(claimHash)).to.eq(true);
+
+      await expect(distributorConnectedToUser.claimReward(
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_CLAIM_REVOKED);
+      await expect(distributorConnectedToUser.claimCumulativeReward(
+        tokenAddress,
+        REWARD_AMOUNT,
+        VALID_AFTER,
+        VALID_UNTIL,
+        await createCumulativeSignature(distributor, user, REWARD_AMOUNT)
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_CLAIM_REVOKED);
+    });
+
+    it("Skips vouchers that are already revoked", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const claimHash = ethers.id("voucher");
+      await distributor.revokeVouchers([claimHash]);
+
+      await expect(distributor.revokeVouchers([claimHash])).not.to.emit(distributor, EVENT_NAME_VOUCHER_REVOKED);
+    });
+
+    it("Is reverted if the caller is not an admin", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect((distributor.connect(attacker) as Contract).revokeVouchers([ethers.id("voucher")]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+        .withArgs(attacker.address, ADMIN_ROLE);
+    });
+  });
+
+  describe("Function 'invalidateNonce()'", async () => {
+    it("Bumps the nonce and invalidates outstanding vouchers", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const outstanding = await createVoucher(distributor, user, REWARD_AMOUNT, 1);
+
+      await expect(distributor.invalidateNonce(user.address, 2))
+          .to.emit(distributor, EVENT_NAME_NONCE_INVALIDATED)
+        .withArgs(user.address, 2);
+      expect(await distributor.getNonce(user.address)).to.eq(2);
+
+      await expect(distributorConnectedToUser.claimReward(
+        outstanding.token,
+        outstanding.amount,
+        outstanding.nonce,
+        outstanding.validAfter,
+        outstanding.validUntil,
+        outstanding.signature
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_NONCE);
+      const next = await createVoucher(distributor, user, REWARD_AMOUNT, 2);
+      await expect(distributorConnectedToUser.claimReward(
+        next.token,
+        next.amount,
+        next.nonce,
+        next.validAfter,
+        next.validUntil,
+        next.signature
+      )).to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+    });
+
+    it("Is reverted if the new nonce is not greater than the current one", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      await distributor.invalidateNonce(user.address, 1);
+
+      await expect(distributor.invalidateNonce(user.address, 1))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_NONCE);
+    });
+
+    it("Is reverted if the caller is not an admin", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect((distributor.connect(attacker) as Contract).invalidateNonce(user.address, 1))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+        .withArgs(attacker.address, ADMIN_ROLE);
+    });
+  });
+
+  describe("Treasury", async () => {
+    it("Funds the contract with tokens pulled from the sender", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+      await token.approve(await distributor.getAddress(), SUPPLY_AMOUNT);
+
+      const tx = distributor.fund(tokenAddress, SUPPLY_AMOUNT);
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_FUNDED)
+        .withArgs(deployer.address, tokenAddress, SUPPLY_AMOUNT);
+      await expect(tx).to.changeTokenBalances(token, [deployer, distributor], [-SUPPLY_AMOUNT, SUPPLY_AMOUNT]);
+    });
+
+    it("Funds the contract with native currency", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+
+      await expect(distributor.fund(NATIVE_TOKEN, SUPPLY_AMOUNT, { value: SUPPLY_AMOUNT }))
+          .to.emit(distributor, EVENT_NAME_FUNDED)
+        .withArgs(deployer.address, NATIVE_TOKEN, SUPPLY_AMOUNT);
+      await expect(distributor.fund(NATIVE_TOKEN, SUPPLY_AMOUNT, { value: REWARD_AMOUNT }))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_AMOUNT);
+      await expect(distributor.fund(await token.getAddress(), REWARD_AMOUNT, { value: REWARD_AMOUNT }))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_AMOUNT);
+    });
+
+    it("Withdraws funds to a recipient", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+
+      const tx = executeOperation(distributor, "withdraw", [tokenAddress, random.address, REWARD_AMOUNT]);
+      await expect(tx)
+          .to.emit(distributor, EVENT_NAME_WITHDRAWN)
+        .withArgs(tokenAddress, random.address, REWARD_AMOUNT);
+      await expect(tx).to.changeTokenBalances(token, [distributor, random], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+
+      await expect(executeOperation(distributor, "withdraw", [tokenAddress, ethers.ZeroAddress, REWARD_AMOUNT]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ZERO_ADDRESS);
+      await expect(executeOperation(distributor, "withdraw", [tokenAddress, random.address, SUPPLY_AMOUNT]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INSUFFICIENT_FUNDS);
+    });
+
+    it("Sweeps the balance stranded after a token switch", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const oldTokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await distributor.deposit({ value: REWARD_AMOUNT });
+      await getTx(executeOperation(distributor, "configureTokenAddress", [random.address]));
+
+      await expect(executeOperation(distributor, "sweep", [oldTokenAddress, deployer.address]))
+        .to.changeTokenBalances(token, [distributor, deployer], [-SUPPLY_AMOUNT, SUPPLY_AMOUNT]);
+      await expect(executeOperation(distributor, "sweep", [NATIVE_TOKEN, random.address]))
+        .to.changeEtherBalances([distributor, random], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+    });
+
+    it("Keeps the funds reserved for vesting schedules", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "configureVesting", [tokenAddress, VESTING_THRESHOLD, VESTING_CLIFF, VESTING_DURATION]));
+      const voucher = await createVoucher(distributor, user, VESTED_AMOUNT, 0);
+      await (distributor.connect(user) as Contract).claimReward(
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      );
+      expect(await distributor.vestingReserve(tokenAddress)).to.eq(VESTED_AMOUNT);
+      expect(await distributor.availableBalance(tokenAddress)).to.eq(SUPPLY_AMOUNT - VESTED_AMOUNT);
+
+      await expect(executeOperation(distributor, "sweep", [tokenAddress, deployer.address]))
+        .to.changeTokenBalances(token, [distributor, deployer], [-(SUPPLY_AMOUNT - VESTED_AMOUNT), SUPPLY_AMOUNT - VESTED_AMOUNT]);
+      await expect(executeOperation(distributor, "withdraw", [tokenAddress, deployer.address, 1]))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INSUFFICIENT_FUNDS);
+
+      await time.increase(VESTING_DURATION);
+      await (distributor.connect(user) as Contract).release(0);
+      expect(await distributor.vestingReserve(tokenAddress)).to.eq(0);
+      expect(await distributor.totalDistributed(tokenAddress)).to.eq(VESTED_AMOUNT);
+    });
+
+    it("Does not pay direct claims out of the funds reserved for vesting schedules", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToUser = distributor.connect(user) as Contract;
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), VESTED_AMOUNT + REWARD_AMOUNT);
+      await getTx(executeOperation(distributor, "configureVesting", [tokenAddress, VESTING_THRESHOLD, VESTING_CLIFF, VESTING_DURATION]));
+      const vested = await createVoucher(distributor, user, VESTED_AMOUNT, 0);
+      await distributorConnectedToUser.claimReward(
+        vested.token,
+        vested.amount,
+        vested.nonce,
+        vested.validAfter,
+        vested.validUntil,
+        vested.signature
+      );
+
+      await expect(distributorConnectedToUser.claimRewards([
+        await createVoucher(distributor, user, REWARD_AMOUNT, 1),
+        await createVoucher(distributor, user, REWARD_AMOUNT, 2)
+      ])).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INSUFFICIENT_FUNDS);
+      const voucher = await createVoucher(distributor, user, REWARD_AMOUNT * 2, 1);
+      await expect(distributorConnectedToUser.claimReward(
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INSUFFICIENT_FUNDS);
+
+      await time.increase(VESTING_DURATION);
+      await expect(distributorConnectedToUser.release(0))
+        .to.changeTokenBalances(token, [distributor, user], [-VESTED_AMOUNT, VESTED_AMOUNT]);
+    });
+
+    it("Tallies the amount distributed per token", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "allowToken", [NATIVE_TOKEN]));
+      await distributor.deposit({ value: SUPPLY_AMOUNT });
+
+      await (distributor.connect(user) as Contract).claimRewards([
+        await createVoucher(distributor, user, REWARD_AMOUNT, 0),
+        await createVoucher(distributor, user, REWARD_AMOUNT, 1),
+        await createVoucher(distributor, user, REWARD_AMOUNT, 2, NATIVE_TOKEN)
+      ]);
+      await (distributor.connect(random) as Contract).claimReward(
+        tokenAddress,
+        REWARD_AMOUNT,
+        0,
+        VALID_AFTER,
+        VALID_UNTIL,
+        await createSignature(distributor, random, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID)
+      );
+
+      expect(await distributor.totalDistributed(tokenAddress)).to.eq(REWARD_AMOUNT * 3);
+      expect(await distributor.totalDistributed(NATIVE_TOKEN)).to.eq(REWARD_AMOUNT);
+    });
+
+    it("Is reverted if not called through an operation scheduled by the admin", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+
+      await expectOnlyThroughOperation(distributor, "withdraw", [await token.getAddress(), attacker.address, 0]);
+      await expectOnlyThroughOperation(distributor, "sweep", [await token.getAddress(), attacker.address]);
+    });
+
+    it("Sweeps only once the operation is ready", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const data = distributor.interface.encodeFunctionData("sweep", [tokenAddress, random.address]);
+      await getTx(distributor.scheduleOperation(data));
+      const readyAt = await distributor.getOperationReadyAt(ethers.keccak256(data));
+
+      await expect(distributor.executeOperation(data))
+        .to.be.revertedWithCustomError(distributor, REVERT_ERROR_OPERATION_NOT_READY)
+        .withArgs(readyAt);
+      expect(await token.balanceOf(random.address)).to.eq(0);
+
+      await time.increaseTo(readyAt);
+      await expect(distributor.executeOperation(data))
+        .to.changeTokenBalances(token, [distributor, random], [-SUPPLY_AMOUNT, SUPPLY_AMOUNT]);
+    });
+  });
+
+  describe("Function 'hashCumulativeClaim()'", async () => {
+    it("Matches the EIP-712 digest built off-chain", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+      const claim = {
+        user: user.address,
+        token: await distributor.token(),
+        cumulativeAmount: REWARD_AMOUNT,
+        validAfter: VALID_AFTER,
+        validUntil: VALID_UNTIL
+      };
+
+      expect(await distributor.hashCumulativeClaim(
+        claim.user,
+        claim.token,
+        claim.cumulativeAmount,
+        claim.validAfter,
+        claim.validUntil
+      )).to.eq(hashCumulativeClaim(domain, claim));
+    });
+  });
+
+  describe("Function 'verifySignature()'", async () => {
+    it("Is reverted if the chain id is invalid", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const signature = await createSignature(
+        distributor,
+        deployer,
+        REWARD_AMOUNT,
+        0,
+        HARDHAT_CHAIN_ID
+      );
+
+      await expect(distributor.verifySignature(user.address, await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, HARDHAT_CHAIN_ID + 1, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_CHAIN_ID);
+    });
+  });
+
+  describe("Function 'previewClaim()'", async () => {
+    async function preview(distributor: Contract, amount: number, nonce: number, signature: string, chainId = HARDHAT_CHAIN_ID) {
+      return distributor.previewClaim(user.address, await distributor.token(), amount, nonce, VALID_AFTER, VALID_UNTIL, chainId, signature);
+    }
+
+    it("Reports a claim that would succeed", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+
+      expect(await preview(distributor, REWARD_AMOUNT, 0, signature)).to.eq(CLAIM_STATUS_OK);
+    });
+
+    it("Reports the chain mismatch and the pause instead of reverting", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+
+      expect(await preview(distributor, REWARD_AMOUNT, 0, signature, HARDHAT_CHAIN_ID + 1)).to.eq(CLAIM_STATUS_WRONG_CHAIN);
+
+      await getTx((distributor.connect(pauser) as Contract).pause());
+
+      expect(await preview(distributor, REWARD_AMOUNT, 0, signature)).to.eq(CLAIM_STATUS_PAUSED);
+    });
+
+    it("Reports used vouchers and wrong nonces", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+      const futureSignature = await createSignature(distributor, user, REWARD_AMOUNT, 2, HARDHAT_CHAIN_ID);
+      await getTx((distributor.connect(user) as Contract).claimReward(
+        await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature
+      ));
+
+      expect(await preview(distributor, REWARD_AMOUNT, 0, signature)).to.eq(CLAIM_STATUS_USED);
+      expect(await preview(distributor, REWARD_AMOUNT, 2, futureSignature)).to.eq(CLAIM_STATUS_WRONG_NONCE);
+    });
+
+    it("Reports unauthorized and malformed signatures as bad signers", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID, attacker);
+      const malformed = "0x1234";
+
+      expect(await preview(distributor, REWARD_AMOUNT, 0, signature)).to.eq(CLAIM_STATUS_BAD_SIGNER);
+      expect(await preview(distributor, REWARD_AMOUNT, 0, malformed)).to.eq(CLAIM_STATUS_BAD_SIGNER);
+      await expect((distributor.connect(user) as Contract).claimReward(
+        await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, malformed
+      )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
+
+    it("Reports claims above the rate limits", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "configureLimits", [await token.getAddress(), 0, REWARD_AMOUNT, 0, LIMIT_WINDOW]));
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT + 1, 0, HARDHAT_CHAIN_ID);
+
+      expect(await preview(distributor, REWARD_AMOUNT + 1, 0, signature)).to.eq(CLAIM_STATUS_LIMIT_EXCEEDED);
+    });
+
+    it("Requires the balance only for claims paid out directly", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), REWARD_AMOUNT - 1);
+      const signature = await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+      const vestedSignature = await createSignature(distributor, user, VESTED_AMOUNT, 0, HARDHAT_CHAIN_ID);
+
+      expect(await preview(distributor, REWARD_AMOUNT, 0, signature)).to.eq(CLAIM_STATUS_INSUFFICIENT_BALANCE);
+
+      await getTx(executeOperation(distributor, "configureVesting", [await token.getAddress(), VESTING_THRESHOLD, VESTING_CLIFF, VESTING_DURATION]));
+
+      expect(await preview(distributor, VESTED_AMOUNT, 0, vestedSignature)).to.eq(CLAIM_STATUS_OK);
+    });
+  });
+
+  describe("Campaigns", async () => {
+    const CAMPAIGN_BUDGET = REWARD_AMOUNT * 3;
+
+    async function createCampaign(
+      distributor: Contract,
+      start: number = VALID_AFTER,
+      end: number = VALID_UNTIL,
+    ): Promise<void> {
+      await getTx(executeOperation(distributor, "createCampaign", [await distributor.token(), CAMPAIGN_BUDGET, start, end]));
+    }
+
+    async function createCampaignSignature(
+      distributor: Contract,
+      recipient: HardhatEthersSigner,
+      campaignId: number,
+      amount: number,
+      nonce: number,
+      voucherSigner: HardhatEthersSigner = signer,
+    ): Promise<string> {
+      const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+      return await signCampaignClaim(voucherSigner, domain, {
+        user: recipient.address,
+        campaignId,
+        amount,
+        nonce,
+        validAfter: VALID_AFTER,
+        validUntil: VALID_UNTIL
+      });
+    }
+
+    async function claimCampaignReward(
+      distributor: Contract,
+      campaignId: number,
+      amount: number,
+      nonce: number,
+      signature: string,
+    ) {
+      return distributor.claimCampaignReward(
+        user.address, campaignId, amount, nonce, VALID_AFTER, VALID_UNTIL, signature
+      );
+    }
+
+    describe("Function 'createCampaign()'", async () => {
+      it("Executes as expected and stores the campaign", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        const tokenAddress = await token.getAddress();
+
+        await expect(executeOperation(distributor, "createCampaign", [tokenAddress, CAMPAIGN_BUDGET, VALID_AFTER, VALID_UNTIL]))
+          .to.emit(distributor, EVENT_NAME_CAMPAIGN_CREATED)
+          .withArgs(0, tokenAddress, CAMPAIGN_BUDGET, VALID_AFTER, VALID_UNTIL);
+
+        expect(await distributor.campaignCount()).to.eq(1);
+        const campaign = await distributor.getCampaign(0);
+        expect(campaign.token).to.eq(tokenAddress);
+        expect(campaign.start).to.eq(VALID_AFTER);
+        expect(campaign.end).to.eq(VALID_UNTIL);
+        expect(campaign.active).to.eq(true);
+        expect(campaign.budget).to.eq(CAMPAIGN_BUDGET);
+        expect(campaign.spent).to.eq(0);
+        expect(await distributor.remainingCampaignBudget(0)).to.eq(CAMPAIGN_BUDGET);
+      });
+
+      it("Is reverted if not called through an operation scheduled by the admin", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+
+        await expectOnlyThroughOperation(distributor, "createCampaign", [await distributor.token(), CAMPAIGN_BUDGET, VALID_AFTER, VALID_UNTIL]);
+      });
+
+      it("Is reverted if the campaign ends before it starts", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+
+        await expect(executeOperation(distributor, "createCampaign", [await distributor.token(), CAMPAIGN_BUDGET, VALID_UNTIL, VALID_AFTER]))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_CAMPAIGN);
+      });
+
+      it("Is reverted if the token is not allowed", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+
+        await expect(executeOperation(distributor, "createCampaign", [random.address, CAMPAIGN_BUDGET, VALID_AFTER, VALID_UNTIL]))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_TOKEN_NOT_ALLOWED);
+      });
+    });
+
+    describe("Function 'setCampaignActive()'", async () => {
+      it("Pauses and unpauses the claims of the campaign only", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        await createCampaign(distributor);
+        await createCampaign(distributor);
+        const signature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 0);
+        const otherSignature = await createCampaignSignature(distributor, user, 1, REWARD_AMOUNT, 0);
+
+        await expect(distributor.setCampaignActive(0, false))
+          .to.emit(distributor, EVENT_NAME_CAMPAIGN_ACTIVE_CHANGED)
+          .withArgs(0, false);
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, signature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_CAMPAIGN_NOT_ACTIVE);
+        await getTx(claimCampaignReward(distributor, 1, REWARD_AMOUNT, 0, otherSignature));
+
+        await getTx(executeOperation(distributor, "setCampaignActive", [0, true]));
+        const nextSignature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 1);
+
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 1, nextSignature))
+          .to.emit(distributor, EVENT_NAME_CAMPAIGN_REWARD_PAID);
+      });
+
+      it("Is reverted if the caller does not have admin role", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        await createCampaign(distributor);
+
+        await expect((distributor.connect(attacker) as Contract).setCampaignActive(0, false))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+          .withArgs(attacker.address, ADMIN_ROLE);
+      });
+
+      it("Is reverted if a campaign is unpaused without an operation scheduled by the admin", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        await createCampaign(distributor);
+        await getTx(distributor.setCampaignActive(0, false));
+
+        await expectOnlyThroughOperation(distributor, "setCampaignActive", [0, true]);
+        expect((await distributor.getCampaign(0)).active).to.eq(false);
+      });
+
+      it("Is reverted if the campaign does not exist", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+
+        await expect(distributor.setCampaignActive(0, false))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_CAMPAIGN);
+      });
+    });
+
+    describe("Function 'claimCampaignReward()'", async () => {
+      it("Executes as expected and debits the budget of the campaign", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        const distributorConnectedToRandom = distributor.connect(random) as Contract;
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        await createCampaign(distributor);
+        const signature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 0);
+
+        const tx = claimCampaignReward(distributorConnectedToRandom, 0, REWARD_AMOUNT, 0, signature);
+
+        await expect(tx)
+          .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+          .withArgs(user.address, await token.getAddress(), REWARD_AMOUNT);
+        await expect(tx)
+          .to.emit(distributor, EVENT_NAME_CAMPAIGN_REWARD_PAID)
+          .withArgs(0, user.address, REWARD_AMOUNT);
+        await expect(tx).to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+        expect((await distributor.getCampaign(0)).spent).to.eq(REWARD_AMOUNT);
+        expect(await distributor.remainingCampaignBudget(0)).to.eq(CAMPAIGN_BUDGET - REWARD_AMOUNT);
+        expect(await distributor.getNonce(user.address)).to.eq(1);
+      });
+
+      it("Shares the nonce of the user with signed claims", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        await createCampaign(distributor);
+        const signature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 0);
+        const claimSignature = await createSignature(distributor, user, REWARD_AMOUNT, 0, HARDHAT_CHAIN_ID);
+        await getTx(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, signature));
+
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, signature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_SIGNATURE_ALREADY_USED);
+        await expect((distributor.connect(user) as Contract).claimReward(
+          await distributor.token(), REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, claimSignature
+        )).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_NONCE);
+      });
+
+      it("Is reverted if the claim would exceed the budget of the campaign", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        await createCampaign(distributor);
+        const signature = await createCampaignSignature(distributor, user, 0, CAMPAIGN_BUDGET - 1, 0);
+        const overBudgetSignature = await createCampaignSignature(distributor, user, 0, 2, 1);
+        await getTx(claimCampaignReward(distributor, 0, CAMPAIGN_BUDGET - 1, 0, signature));
+
+        await expect(claimCampaignReward(distributor, 0, 2, 1, overBudgetSignature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_CAMPAIGN_BUDGET_EXCEEDED);
+      });
+
+      it("Is reverted before the start and after the end of the campaign", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        const start = (await time.latest()) + OPERATION_DELAY + 1_000;
+        await createCampaign(distributor, start, start + 1_000);
+        const signature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 0);
+
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, signature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_CAMPAIGN_NOT_ACTIVE);
+
+        await time.increaseTo(start + 1_001);
+
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, signature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_CAMPAIGN_NOT_ACTIVE);
+      });
+
+      it("Is reverted if the campaign does not exist", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const signature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 0);
+
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, signature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_CAMPAIGN);
+      });
+
+      it("Is reverted if the voucher was signed for another campaign or by a non-signer", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        await createCampaign(distributor);
+        await createCampaign(distributor);
+        const otherCampaignSignature = await createCampaignSignature(distributor, user, 1, REWARD_AMOUNT, 0);
+        const attackerSignature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 0, attacker);
+
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, otherCampaignSignature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, attackerSignature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+      });
+
+      it("Is reverted if the amount is above the vesting threshold of the token", async () => {
+        const { token, distributor } = await loadFixture(deployContracts);
+        await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+        await getTx(executeOperation(distributor, "configureVesting", [await token.getAddress(), REWARD_AMOUNT, VESTING_CLIFF, VESTING_DURATION]));
+        await createCampaign(distributor);
+        const signature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT * 2, 0);
+
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT * 2, 0, signature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_VESTING_THRESHOLD_EXCEEDED);
+        await expect(claimCampaignReward(
+          distributor,
+          0,
+          REWARD_AMOUNT,
+          0,
+          await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 0)
+        )).to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+      });
+
+      it("Is reverted if the contract is paused", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        await createCampaign(distributor);
+        await getTx((distributor.connect(pauser) as Contract).pause());
+        const signature = await createCampaignSignature(distributor, user, 0, REWARD_AMOUNT, 0);
+
+        await expect(claimCampaignReward(distributor, 0, REWARD_AMOUNT, 0, signature))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+      });
+    });
+  });
+
+  describe("Function 'claimSplitReward()'", async () => {
+    async function claimSplitReward(distributor: Contract, payouts: Payout[], nonce: number, signature?: string) {
+      const tokenAddress = await distributor.token();
+      signature ??= await signSplitClaim(signer, getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID), {
+        user: user.address,
+        token: tokenAddress,
+        payouts,
+        nonce,
+        validAfter: VALID_AFTER,
+        validUntil: VALID_UNTIL
+      });
+      return distributor.claimSplitReward(
+        user.address, tokenAddress, payouts, nonce, VALID_AFTER, VALID_UNTIL, signature
+      );
+    }
+
+    it("Executes as expected and pays every recipient", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      const distributorConnectedToRandom = distributor.connect(random) as Contract;
+      const tokenAddress = await token.getAddress();
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const payouts = [
+        { recipient: user.address, amount: REWARD_AMOUNT - 10 },
+        { recipient: attacker.address, amount: 10 }
+      ];
+
+      const tx = claimSplitReward(distributorConnectedToRandom, payouts, 0);
+
+      await expect(tx)
+        .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(user.address, tokenAddress, REWARD_AMOUNT - 10);
+      await expect(tx)
+        .to.emit(distributor, EVENT_NAME_REWARD_PAID)
+        .withArgs(attacker.address, tokenAddress, 10);
+      await expect(tx).to.changeTokenBalances(
+        token,
+        [distributor, user, attacker, random],
+        [-REWARD_AMOUNT, REWARD_AMOUNT - 10, 10, 0]
+      );
+      expect(await distributor.getNonce(user.address)).to.eq(1);
+      expect(await distributor.totalDistributed(tokenAddress)).to.eq(REWARD_AMOUNT);
+      await expect(claimSplitReward(distributor, payouts, 0))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_SIGNATURE_ALREADY_USED);
+    });
+
+    it("Hashes the payouts as the TypeScript voucher builder does", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const claim = {
+        user: user.address,
+        token: await distributor.token(),
+        payouts: [
+          { recipient: user.address, amount: REWARD_AMOUNT },
+          { recipient: random.address, amount: 1 }
+        ],
+        nonce: 3,
+        validAfter: VALID_AFTER,
+        validUntil: VALID_UNTIL
+      };
+
+      expect(await distributor.hashSplitClaim(
+        claim.user, claim.token, claim.payouts, claim.nonce, claim.validAfter, claim.validUntil
+      )).to.eq(hashSplitClaim(getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID), claim));
+    });
+
+    it("Is reverted if the payouts differ from the signed ones", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      const payouts = [
+        { recipient: user.address, amount: REWARD_AMOUNT },
+        { recipient: random.address, amount: 10 }
+      ];
+      const signature = await signSplitClaim(signer, getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID), {
+        user: user.address,
+        token: await distributor.token(),
+        payouts,
+        nonce: 0,
+        validAfter: VALID_AFTER,
+        validUntil: VALID_UNTIL
+      });
+
+      await expect(claimSplitReward(distributor, [payouts[0], { ...payouts[1], recipient: attacker.address }], 0, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+      await expect(claimSplitReward(distributor, [payouts[1], payouts[0]], 0, signature))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SIGNATURE);
+    });
+
+    it("Is reverted if the split is empty, oversize or pays a recipient twice", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      const wallets = Array.from({ length: MAX_SPLIT_RECIPIENTS + 1 }, () => ethers.Wallet.createRandom());
+      const oversize = wallets.map((wallet) => ({ recipient: wallet.address, amount: 1 }));
+
+      await expect(claimSplitReward(distributor, [], 0, "0x"))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SPLIT);
+      await expect(claimSplitReward(distributor, oversize, 0, "0x"))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SPLIT);
+      await expect(claimSplitReward(distributor, [
+        { recipient: user.address, amount: 1 },
+        { recipient: random.address, amount: 1 },
+        { recipient: user.address, amount: 1 }
+      ], 0, "0x")).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_SPLIT);
+    });
+
+    it("Is reverted if a recipient is the zero address or is paid nothing", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+
+      await expect(claimSplitReward(distributor, [
+        { recipient: user.address, amount: REWARD_AMOUNT },
+        { recipient: ethers.ZeroAddress, amount: 1 }
+      ], 0, "0x")).to.be.revertedWithCustomError(distributor, REVERT_ERROR_ZERO_ADDRESS);
+      await expect(claimSplitReward(distributor, [
+        { recipient: user.address, amount: REWARD_AMOUNT },
+        { recipient: random.address, amount: 0 }
+      ], 0, "0x")).to.be.revertedWithCustomError(distributor, REVERT_ERROR_INVALID_AMOUNT);
+    });
+
+    it("Applies the rate limits of the token to the total", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "configureLimits", [await token.getAddress(), REWARD_AMOUNT, 0, 0, LIMIT_WINDOW]));
+
+      await expect(claimSplitReward(distributor, [
+        { recipient: user.address, amount: REWARD_AMOUNT },
+        { recipient: random.address, amount: 1 }
+      ], 0)).to.be.revertedWithCustomError(distributor, REVERT_ERROR_CLAIM_LIMIT_EXCEEDED);
+    });
+
+    it("Is reverted if the total is above the vesting threshold of the token", async () => {
+      const { token, distributor } = await loadFixture(deployContracts);
+      await token.transfer(await distributor.getAddress(), SUPPLY_AMOUNT);
+      await getTx(executeOperation(distributor, "configureVesting", [await token.getAddress(), REWARD_AMOUNT, VESTING_CLIFF, VESTING_DURATION]));
+
+      await expect(claimSplitReward(distributor, [
+        { recipient: user.address, amount: REWARD_AMOUNT },
+        { recipient: random.address, amount: 1 }
+      ], 0)).to.be.revertedWithCustomError(distributor, REVERT_ERROR_VESTING_THRESHOLD_EXCEEDED);
+      await expect(claimSplitReward(distributor, [
+        { recipient: user.address, amount: REWARD_AMOUNT - 1 },
+        { recipient: random.address, amount: 1 }
+      ], 0)).to.changeTokenBalances(token, [distributor, user, random], [-REWARD_AMOUNT, REWARD_AMOUNT - 1, 1]);
+    });
+
+    it("Is reverted if the contract is paused", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      await getTx((distributor.connect(pauser) as Contract).pause());
+
+      await expect(claimSplitReward(distributor, [{ recipient: user.address, amount: REWARD_AMOUNT }], 0))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ENFORCED_PAUSE);
+    });
+  });
+
+  describe("Operations", async () => {
+    function encodeTokenChange(distributor: Contract, tokenAddress: string = random.address): string {
+      return distributor.interface.encodeFunctionData("configureTokenAddress", [tokenAddress]);
+    }
+
+    describe("Function 'scheduleOperation()'", async () => {
+      it("Executes as expected and records when the operation becomes ready", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const data = encodeTokenChange(distributor);
+        const scheduledAt = (await time.latest()) + 10;
+        const readyAt = scheduledAt + OPERATION_DELAY;
+        await time.setNextBlockTimestamp(scheduledAt);
+
+        await expect(distributor.scheduleOperation(data))
+          .to.emit(distributor, EVENT_NAME_OPERATION_SCHEDULED)
+          .withArgs(ethers.keccak256(data), data, readyAt);
+
+        expect(await distributor.getOperationReadyAt(ethers.keccak256(data))).to.eq(readyAt);
+        expect(await distributor.token()).not.to.eq(random.address);
+      });
+
+      it("Is reverted if the same operation is already pending", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const data = encodeTokenChange(distributor);
+        await getTx(distributor.scheduleOperation(data));
+
+        await expect(distributor.scheduleOperation(data))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_OPERATION_ALREADY_SCHEDULED);
+      });
+    });
+
+    describe("Function 'executeOperation()'", async () => {
+      it("Is reverted before the delay has passed", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const data = encodeTokenChange(distributor);
+        await getTx(distributor.scheduleOperation(data));
+        const readyAt = await distributor.getOperationReadyAt(ethers.keccak256(data));
+
+        await expect(distributor.executeOperation(data))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_OPERATION_NOT_READY)
+          .withArgs(readyAt);
+
+        await time.setNextBlockTimestamp(readyAt - 1n);
+
+        await expect(distributor.executeOperation(data))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_OPERATION_NOT_READY)
+          .withArgs(readyAt);
+
+        await time.setNextBlockTimestamp(readyAt);
+
+        await expect(distributor.executeOperation(data))
+          .to.emit(distributor, EVENT_NAME_OPERATION_EXECUTED)
+          .withArgs(ethers.keccak256(data));
+        expect(await distributor.token()).to.eq(random.address);
+        expect(await distributor.getOperationReadyAt(ethers.keccak256(data))).to.eq(0);
+      });
+
+      it("Is reverted if the operation was not scheduled or was already executed", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const data = encodeTokenChange(distributor);
+
+        await expect(distributor.executeOperation(data))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_OPERATION);
+
+        await getTx(executeOperation(distributor, "configureTokenAddress", [random.address]));
+
+        await expect(distributor.executeOperation(data))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_OPERATION);
+      });
+
+      it("Is reverted if the caller does not have the role of the operation", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const data = encodeTokenChange(distributor);
+        await getTx(distributor.scheduleOperation(data));
+        await time.increase(OPERATION_DELAY);
+
+        await expect((distributor.connect(attacker) as Contract).executeOperation(data))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+          .withArgs(attacker.address, ADMIN_ROLE);
+      });
+
+      it("Grants and revokes roles", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+
+        await expect(distributor.grantRole(PAUSER_ROLE, random.address))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+          .withArgs(deployer.address, DEFAULT_ADMIN_ROLE);
+
+        await getTx(executeOperation(distributor, "grantRole", [PAUSER_ROLE, random.address]));
+
+        expect(await distributor.hasRole(PAUSER_ROLE, random.address)).to.eq(true);
+
+        await getTx(executeOperation(distributor, "revokeRole", [PAUSER_ROLE, random.address]));
+
+        expect(await distributor.hasRole(PAUSER_ROLE, random.address)).to.eq(false);
+      });
+
+      it("Changes the delay of the operations scheduled afterwards", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const data = encodeTokenChange(distributor);
+        await getTx(distributor.scheduleOperation(data));
+
+        await expect(distributor.setOperationDelay(0))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+          .withArgs(deployer.address, DEFAULT_ADMIN_ROLE);
+        await expect(executeOperation(distributor, "setOperationDelay", [OPERATION_DELAY * 2]))
+          .to.emit(distributor, EVENT_NAME_OPERATION_DELAY_CHANGED)
+          .withArgs(OPERATION_DELAY * 2);
+
+        expect(await distributor.operationDelay()).to.eq(OPERATION_DELAY * 2);
+        await getTx(distributor.executeOperation(data));
+        const otherData = encodeTokenChange(distributor, attacker.address);
+        const scheduledAt = (await time.latest()) + 10;
+        await time.setNextBlockTimestamp(scheduledAt);
+        await getTx(distributor.scheduleOperation(otherData));
+        expect(await distributor.getOperationReadyAt(ethers.keccak256(otherData)))
+          .to.eq(scheduledAt + OPERATION_DELAY * 2);
+      });
+    });
+
+    describe("Function 'cancelOperation()'", async () => {
+      it("Executes as expected and prevents the execution", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const data = encodeTokenChange(distributor);
+        const operationId = ethers.keccak256(data);
+        await getTx(distributor.scheduleOperation(data));
+
+        await expect(distributor.cancelOperation(operationId))
+          .to.emit(distributor, EVENT_NAME_OPERATION_CANCELLED)
+          .withArgs(operationId);
+
+        await time.increase(OPERATION_DELAY);
+        expect(await distributor.getOperationReadyAt(operationId)).to.eq(0);
+        await expect(distributor.executeOperation(data))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_OPERATION);
+        await expect(distributor.cancelOperation(operationId))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_OPERATION);
+      });
+
+      it("Lets the admin stop an upgrade scheduled by the upgrader", async () => {
+        const { distributor } = await loadFixture(deployContracts);
+        const distributorConnectedToUpgrader = distributor.connect(upgrader) as Contract;
+        const data = distributor.interface.encodeFunctionData("upgradeToAndCall", [random.address, "0x"]);
+        await getTx(distributorConnectedToUpgrader.scheduleOperation(data));
+
+        await expect(distributorConnectedToUpgrader.cancelOperation(ethers.keccak256(data)))
+          .to.be.revertedWithCustomError(distributor, REVERT_ERROR_ACCESS_CONTROL_UNAUTHORIZED)
+          .withArgs(upgrader.address, ADMIN_ROLE);
+
+        await getTx(distributor.cancelOperation(ethers.keccak256(data)));
+        await time.increase(OPERATION_DELAY);
+
+        await expect(distributorConnectedToUpgrader.executeOperation(data))
+            .to.be.revertedWithCustomError(distributor, REVERT_ERROR_UNKNOWN_OPERATION);
+      });
+    });
+
+    it("'initializeV3()' does nothing on a fresh deployment", async () => {
+      const { distributor } = await loadFixture(deployContracts);
+      await getTx(executeOperation(distributor, "setOperationDelay", [0]));
+
+      await expect(distributor.initializeV3()).not.to.emit(distributor, EVENT_NAME_OPERATION_DELAY_CHANGED);
+
+      expect(await distributor.operationDelay()).to.eq(0);
     });
   });
 });
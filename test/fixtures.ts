@@ -0,0 +1,48 @@
+import { ethers, upgrades } from "hardhat";
+import { BigNumberish, Contract, ContractFactory } from "ethers";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+// The delay of the operations of a fresh deployment.
+export const OPERATION_DELAY = 2 * 86_400;
+
+// Deploys a `TestToken` and a distributor paying it out by default, with the
+// first account holding the pauser, upgrader and admin roles, and funds the
+// distributor with `supply` tokens.
+export async function deployTokenAndDistributor(
+  signer: string,
+  supply: BigNumberish = 0
+): Promise<{
+  token: Contract;
+  distributor: Contract;
+}> {
+  const [deployer] = await ethers.getSigners();
+  const tokenFactory: ContractFactory = await ethers.getContractFactory("TestToken");
+  const distributorFactory: ContractFactory = await ethers.getContractFactory("FundsDistributor");
+  const token = (await tokenFactory.deploy()) as Contract;
+  await token.waitForDeployment();
+
+  const distributor: Contract = await upgrades.deployProxy(distributorFactory, [
+    deployer.address,
+    deployer.address,
+    deployer.address,
+    await token.getAddress(),
+    signer
+  ]);
+  await distributor.waitForDeployment();
+  if (BigInt(supply) > 0n) {
+    await token.transfer(await distributor.getAddress(), supply);
+  }
+
+  return {
+    token,
+    distributor
+  };
+}
+
+// Runs a call of the admin through an operation, once its delay has passed.
+export async function executeOperation(distributor: Contract, method: string, args: unknown[]) {
+  const data = distributor.interface.encodeFunctionData(method, args);
+  await (await distributor.scheduleOperation(data)).wait();
+  await time.increase(OPERATION_DELAY);
+  await (await distributor.executeOperation(data)).wait();
+}
@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  buildMerkleDistribution,
+  parseDistribution,
+  writeMerkleDistribution,
+} from "../../scripts/buildMerkleTree";
+
+describe("Script 'buildMerkleTree'", async () => {
+  const LEAF_ENCODING = ["uint256", "address", "uint256"];
+  const FIRST = ethers.getAddress("0x1000000000000000000000000000000000000001");
+  const SECOND = ethers.getAddress("0x2000000000000000000000000000000000000002");
+
+  describe("Function 'parseDistribution()'", async () => {
+    it("Parses CSV with and without a header", async () => {
+      const expected = [
+        { address: FIRST, amount: 100n },
+        { address: SECOND, amount: 200n }
+      ];
+      const rows = `${FIRST.toLowerCase()},100\n${SECOND}, 200\n`;
+
+      expect(parseDistribution(rows, "csv")).to.deep.eq(expected);
+      expect(parseDistribution(`address,amount\n${rows}`, "csv")).to.deep.eq(expected);
+    });
+
+    it("Parses JSON", async () => {
+      const content = JSON.stringify([{ address: FIRST, amount: 100 }, { address: SECOND, amount: "200" }]);
+
+      expect(parseDistribution(content, "json")).to.deep.eq([
+        { address: FIRST, amount: 100n },
+        { address: SECOND, amount: 200n }
+      ]);
+    });
+
+    it("Rejects invalid addresses and amounts", async () => {
+      expect(() => parseDistribution("0x1234,100", "csv")).to.throw("Invalid address");
+      expect(() => parseDistribution(`${FIRST},-1`, "csv")).to.throw("Invalid amount");
+    });
+  });
+
+  describe("Function 'buildMerkleDistribution()'", async () => {
+    it("Builds proofs that verify against the root and sums repeated addresses", async () => {
+      const distribution = buildMerkleDistribution([
+        { address: FIRST, amount: 100n },
+        { address: SECOND, amount: 200n },
+        { address: FIRST, amount: 50n }
+      ]);
+
+      expect(distribution.total).to.eq("350");
+      expect(distribution.proofs.map(({ user, amount }) => [user, amount])).to.deep.eq([
+        [FIRST, "150"],
+        [SECOND, "200"]
+      ]);
+      for (const { index, user, amount, proof } of distribution.proofs) {
+        expect(StandardMerkleTree.verify(distribution.merkleRoot, LEAF_ENCODING, [index, user, amount], proof))
+            .to.eq(true);
+      }
+    });
+
+    it("Rejects an empty distribution", async () => {
+      expect(() => buildMerkleDistribution([])).to.throw("empty");
+    });
+
+    it("Rejects rewards above the vesting threshold, which epochs would bypass", async () => {
+      const entries = [
+        { address: FIRST, amount: 100n },
+        { address: SECOND, amount: 200n },
+        { address: FIRST, amount: 50n }
+      ];
+
+      expect(() => buildMerkleDistribution(entries, 149n))
+        .to.throw(`The reward of ${FIRST} of 150 is above the vesting threshold of 149`);
+      expect(buildMerkleDistribution(entries, 200n).total).to.eq("350");
+    });
+  });
+
+  describe("Function 'writeMerkleDistribution()'", async () => {
+    it("Writes the root and one proof file per user", async () => {
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "merkle-"));
+      const distribution = buildMerkleDistribution([
+        { address: FIRST, amount: 100n },
+        { address: SECOND, amount: 200n }
+      ]);
+
+      try {
+        writeMerkleDistribution(distribution, outputDir);
+
+        const root = JSON.parse(fs.readFileSync(path.join(outputDir, "root.json"), "utf8"));
+        expect(root).to.deep.eq({ merkleRoot: distribution.merkleRoot, total: "300", count: 2 });
+        const proof = JSON.parse(fs.readFileSync(path.join(outputDir, "proofs", `${SECOND}.json`), "utf8"));
+        expect(proof).to.deep.eq(distribution.proofs[1]);
+      } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
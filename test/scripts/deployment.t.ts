@@ -0,0 +1,231 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract, ContractFactory } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getDomain, signClaim } from "../../scripts/voucher";
+import {
+  DeploymentConfig,
+  ROLES,
+  compareStates,
+  deployDistributor,
+  getDistributorState,
+  loadDeploymentConfig,
+  saveDeploymentConfig,
+  upgradeDistributor
+} from "../../scripts/deployment";
+
+describe("Script 'deployment'", async () => {
+  const REWARD_AMOUNT = 100n;
+  const HARDHAT_CHAIN_ID = 31337;
+  const VALID_AFTER = 0;
+  const VALID_UNTIL = 4_102_444_800; // 2100-01-01
+  const OPERATION_DELAY = 2 * 86_400;
+
+  let tokenFactory: ContractFactory;
+  let distributorFactory: ContractFactory;
+  let distributorV1Factory: ContractFactory;
+  let deployer: HardhatEthersSigner;
+  let admin: HardhatEthersSigner;
+  let upgrader: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let otherUser: HardhatEthersSigner;
+
+  before(async () => {
+    [deployer, admin, upgrader, signer, user, otherUser] = await ethers.getSigners();
+    tokenFactory = await ethers.getContractFactory("TestToken");
+    distributorFactory = await ethers.getContractFactory("FundsDistributor");
+    distributorV1Factory = await ethers.getContractFactory("FundsDistributorV1Mock");
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+    config: DeploymentConfig;
+  }> {
+    const token = (await tokenFactory.deploy()) as Contract;
+    await token.waitForDeployment();
+
+    const config = await deployDistributor(deployer, {
+      token: await token.getAddress(),
+      roles: { admin: admin.address, upgrader: upgrader.address, signer: signer.address },
+      users: [user.address, otherUser.address]
+    });
+    const distributor = distributorFactory.attach(config.distributor!) as Contract;
+    await token.transfer(config.distributor!, REWARD_AMOUNT * 2n);
+
+    return {
+      token,
+      distributor,
+      config
+    };
+  }
+
+  async function deployV1Contracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+    config: DeploymentConfig;
+  }> {
+    const token = (await tokenFactory.deploy()) as Contract;
+    await token.waitForDeployment();
+
+    const distributor: Contract = await upgrades.deployProxy(distributorV1Factory, [
+      deployer.address,
+      upgrader.address,
+      admin.address,
+      await token.getAddress()
+    ]);
+    await distributor.waitForDeployment();
+
+    return {
+      token,
+      distributor,
+      config: {
+        distributor: await distributor.getAddress(),
+        roles: { admin: admin.address, upgrader: upgrader.address, pauser: deployer.address },
+        users: [user.address]
+      }
+    };
+  }
+
+  async function claim(distributor: Contract, token: Contract, nonce: number) {
+    const claim = {
+      user: user.address,
+      token: await token.getAddress(),
+      amount: REWARD_AMOUNT,
+      nonce,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    };
+    const signature = await signClaim(signer, getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID), claim);
+    await distributor
+      .connect(user)
+      .getFunction("claimReward")(claim.token, claim.amount, claim.nonce, claim.validAfter, claim.validUntil, signature);
+  }
+
+  it("Deploys the configured roles and token, then reuses the deployment", async () => {
+    const { token, distributor, config } = await loadFixture(deployContracts);
+
+    expect(await distributor.token()).to.eq(await token.getAddress());
+    expect(await distributor.hasRole(ROLES.admin, admin.address)).to.eq(true);
+    expect(await distributor.hasRole(ROLES.upgrader, upgrader.address)).to.eq(true);
+    expect(await distributor.hasRole(ROLES.pauser, deployer.address)).to.eq(true);
+    expect(await distributor.isSigner(signer.address)).to.eq(true);
+    expect(config.roles).to.deep.eq({
+      pauser: deployer.address,
+      upgrader: upgrader.address,
+      admin: admin.address,
+      signer: signer.address
+    });
+
+    const nonce = await deployer.getNonce();
+    expect(await deployDistributor(deployer, config)).to.deep.eq(config);
+    expect(await deployer.getNonce()).to.eq(nonce);
+    await expect(deployDistributor(deployer, { distributor: user.address }))
+      .to.be.rejectedWith(`No contract at ${user.address}`);
+  });
+
+  it("Saves and loads the configuration of a network", async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "deployment-")), "config", "testnet.json");
+
+    expect(loadDeploymentConfig(file)).to.deep.eq({});
+
+    saveDeploymentConfig(file, {
+      distributor: user.address.toLowerCase(),
+      roles: { admin: admin.address.toLowerCase() },
+      users: [otherUser.address.toLowerCase()]
+    });
+
+    expect(loadDeploymentConfig(file)).to.deep.eq({
+      distributor: user.address,
+      token: undefined,
+      roles: { admin: admin.address },
+      users: [otherUser.address]
+    });
+
+    fs.writeFileSync(file, JSON.stringify({ roles: { owner: admin.address } }));
+    expect(() => loadDeploymentConfig(file)).to.throw(`Unknown role owner in ${file}`);
+  });
+
+  it("Upgrades through an operation to a release with new storage, preserving the state", async () => {
+    const { token, distributor, config } = await loadFixture(deployContracts);
+    await claim(distributor, token, 0);
+    await distributor.connect(admin).getFunction("invalidateNonce")(otherUser.address, 5);
+    const before = await getDistributorState(config.distributor!, config);
+
+    const scheduled = await upgradeDistributor(upgrader, config, "FundsDistributorV2Mock");
+    expect(scheduled.status).to.eq("scheduled");
+
+    const pending = await upgradeDistributor(upgrader, config, "FundsDistributorV2Mock");
+    expect(pending).to.deep.eq({ ...scheduled, status: "pending" });
+
+    await time.increase(OPERATION_DELAY);
+    const upgraded = await upgradeDistributor(upgrader, config, "FundsDistributorV2Mock");
+
+    expect(upgraded).to.deep.eq({
+      status: "upgraded",
+      implementation: scheduled.implementation,
+      // A fresh deployment is initialized as version 1, and the reinitializers are harmless on it.
+      reinitializers: ["initializeV2", "initializeV3", "initializeV4"]
+    });
+    expect(await upgrades.erc1967.getImplementationAddress(config.distributor!)).to.eq(scheduled.implementation);
+    expect(await getDistributorState(config.distributor!, config)).to.deep.eq(before);
+    expect(before.nonces).to.deep.eq({ [user.address]: 1n, [otherUser.address]: 5n });
+
+    const distributorV2 = (await ethers.getContractFactory("FundsDistributorV2Mock")).attach(config.distributor!) as Contract;
+    expect(await distributorV2.upgradedAt()).to.eq(await time.latest());
+    await claim(distributorV2, token, 1);
+    expect(await token.balanceOf(user.address)).to.eq(REWARD_AMOUNT * 2n);
+    expect(await distributorV2.getNonce(user.address)).to.eq(2);
+  });
+
+  it("Upgrades the initial release and calls the reinitializers it missed", async () => {
+    const { token, config } = await loadFixture(deployV1Contracts);
+    const before = await getDistributorState(config.distributor!, config);
+
+    const upgraded = await upgradeDistributor(upgrader, config);
+
+    expect(upgraded.status).to.eq("upgraded");
+    expect(upgraded).to.have.property("reinitializers").that.deep.eq(["initializeV2", "initializeV3"]);
+    expect(await getDistributorState(config.distributor!, config)).to.deep.eq(before);
+
+    const distributor = distributorFactory.attach(config.distributor!) as Contract;
+    expect(await distributor.isTokenAllowed(await token.getAddress())).to.eq(true);
+    expect(await distributor.hasRole(ethers.ZeroHash, config.distributor!)).to.eq(true);
+    expect(await distributor.operationDelay()).to.eq(OPERATION_DELAY);
+  });
+
+  it("Refuses a release with an incompatible storage layout", async () => {
+    const { config } = await loadFixture(deployV1Contracts);
+    const implementation = await upgrades.erc1967.getImplementationAddress(config.distributor!);
+
+    await expect(upgradeDistributor(upgrader, config, "FundsDistributorLayoutMock"))
+      .to.be.rejectedWith("New storage layout is incompatible");
+
+    expect(await upgrades.erc1967.getImplementationAddress(config.distributor!)).to.eq(implementation);
+  });
+
+  it("Reports the state an upgrade did not preserve", async () => {
+    const before = {
+      token: admin.address,
+      nonces: { [user.address]: 3n },
+      roles: { [`admin ${admin.address}`]: true, [`pauser ${user.address}`]: false }
+    };
+
+    expect(compareStates(before, before)).to.deep.eq([]);
+    expect(compareStates(before, {
+      token: user.address,
+      nonces: { [user.address]: 0n },
+      roles: { [`admin ${admin.address}`]: false, [`pauser ${user.address}`]: true }
+    })).to.deep.eq([
+      `Token changed from ${admin.address} to ${user.address}`,
+      `Nonce of ${user.address} changed from 3 to 0`,
+      `${admin.address} lost the admin role`,
+      `${user.address} gained the pauser role`
+    ]);
+  });
+});
@@ -0,0 +1,206 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getDomain, signCampaignClaim, signClaim } from "../../scripts/voucher";
+import {
+  IndexerState,
+  indexEvents,
+  loadCheckpoint,
+  reconcile,
+  saveCheckpoint,
+  summarizeByCampaign,
+  summarizeByUser,
+  writeReports,
+} from "../../scripts/getEvents";
+import { deployTokenAndDistributor, executeOperation } from "../fixtures";
+
+describe("Script 'getEvents'", async () => {
+  const SUPPLY_AMOUNT = 1_000_000;
+  const REWARD_AMOUNT = 100;
+  const HARDHAT_CHAIN_ID = 31337;
+  const VALID_AFTER = 0;
+  const VALID_UNTIL = 4_102_444_800; // 2100-01-01
+
+  let user: HardhatEthersSigner;
+  let random: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+
+  before(async () => {
+    [, user, random, signer] = await ethers.getSigners();
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+    deploymentBlock: number;
+  }> {
+    const deploymentBlock = await ethers.provider.getBlockNumber();
+    const { token, distributor } = await deployTokenAndDistributor(signer.address, SUPPLY_AMOUNT);
+
+    return {
+      token,
+      distributor,
+      deploymentBlock
+    };
+  }
+
+  async function claim(distributor: Contract, recipient: HardhatEthersSigner, amount: number, nonce: number) {
+    const voucher = {
+      user: recipient.address,
+      token: await distributor.token(),
+      amount,
+      nonce,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    };
+    const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+    const signature = await signClaim(signer, domain, voucher);
+    await (distributor.connect(recipient) as Contract).claimReward(
+      voucher.token,
+      voucher.amount,
+      voucher.nonce,
+      voucher.validAfter,
+      voucher.validUntil,
+      signature
+    );
+  }
+
+  async function claimCampaign(distributor: Contract, campaignId: number, amount: number, nonce: number) {
+    const voucher = {
+      user: user.address,
+      campaignId,
+      amount,
+      nonce,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    };
+    const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+    const signature = await signCampaignClaim(signer, domain, voucher);
+    await distributor.claimCampaignReward(
+      voucher.user,
+      voucher.campaignId,
+      voucher.amount,
+      voucher.nonce,
+      voucher.validAfter,
+      voucher.validUntil,
+      signature
+    );
+  }
+
+  it("Decodes the events in chunks and checkpoints after each chunk", async () => {
+    const { token, distributor, deploymentBlock } = await loadFixture(deployContracts);
+    await claim(distributor, user, REWARD_AMOUNT, 0);
+    await claim(distributor, random, REWARD_AMOUNT * 2, 0);
+    const checkpoints: number[] = [];
+
+    const state = await indexEvents(distributor, undefined, {
+      fromBlock: deploymentBlock,
+      chunkSize: 2,
+      confirmations: 0,
+      onCheckpoint: (checkpoint) => checkpoints.push(checkpoint.lastBlock)
+    });
+
+    const latestBlock = await ethers.provider.getBlockNumber();
+    expect(state.lastBlock).to.eq(latestBlock);
+    expect(checkpoints.length).to.eq(Math.ceil((latestBlock - deploymentBlock + 1) / 2));
+    expect(state.events.map((event) => event.event)).to.deep.eq(["TokenConfigured", "RewardPaid", "RewardPaid"]);
+    expect(state.events[0].token).to.eq(await token.getAddress());
+    expect(state.events[2]).to.include({
+      user: random.address,
+      token: await token.getAddress(),
+      amount: String(REWARD_AMOUNT * 2)
+    });
+  });
+
+  it("Resumes from the checkpoint and leaves unconfirmed blocks for later", async () => {
+    const { distributor, deploymentBlock } = await loadFixture(deployContracts);
+    await claim(distributor, user, REWARD_AMOUNT, 0);
+    const first = await indexEvents(distributor, undefined, { fromBlock: deploymentBlock, confirmations: 0 });
+
+    await claim(distributor, user, REWARD_AMOUNT, 1);
+    const unconfirmed = await indexEvents(distributor, first, { confirmations: 1 });
+    expect(unconfirmed.lastBlock).to.eq(first.lastBlock);
+    expect(unconfirmed.events.length).to.eq(first.events.length);
+
+    await mine(1);
+    const confirmed = await indexEvents(distributor, unconfirmed, { confirmations: 1 });
+    expect(confirmed.events.length).to.eq(first.events.length + 1);
+    expect(first.events.length).to.eq(2);
+  });
+
+  it("Totals the rewards per user and token and writes the reports", async () => {
+    const { distributor, deploymentBlock } = await loadFixture(deployContracts);
+    await claim(distributor, user, REWARD_AMOUNT, 0);
+    await claim(distributor, user, REWARD_AMOUNT, 1);
+    await claim(distributor, random, REWARD_AMOUNT, 0);
+    const state = await indexEvents(distributor, undefined, { fromBlock: deploymentBlock, confirmations: 0 });
+    await claim(distributor, random, REWARD_AMOUNT, 1);
+    const tokenAddress = await distributor.token();
+
+    expect(summarizeByUser(state.events)).to.deep.eq([
+      { user: user.address, token: tokenAddress, claims: 2, total: String(REWARD_AMOUNT * 2) },
+      { user: random.address, token: tokenAddress, claims: 1, total: String(REWARD_AMOUNT) }
+    ]);
+
+    // The claim made after the last indexed block is left out of both sides.
+    expect(await reconcile(distributor, state)).to.deep.eq([
+      { token: tokenAddress, indexed: String(REWARD_AMOUNT * 3), onChain: String(REWARD_AMOUNT * 3), matches: true }
+    ]);
+
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "events-"));
+    try {
+      const checkpointFile = path.join(outputDir, "checkpoint.json");
+      saveCheckpoint(checkpointFile, state);
+      expect(loadCheckpoint(checkpointFile)).to.deep.eq(state as IndexerState);
+      writeReports(state, outputDir);
+
+      const totals = fs.readFileSync(path.join(outputDir, "totals.csv"), "utf8").trim().split("\n");
+      expect(totals[0]).to.eq("user,token,claims,total");
+      expect(totals[1]).to.eq(`${user.address},${tokenAddress},2,${REWARD_AMOUNT * 2}`);
+      const events = fs.readFileSync(path.join(outputDir, "events.csv"), "utf8").trim().split("\n");
+      expect(events.length).to.eq(state.events.length + 1);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it("Totals the rewards per campaign", async () => {
+    const { distributor, deploymentBlock } = await loadFixture(deployContracts);
+    const tokenAddress = await distributor.token();
+    await executeOperation(distributor, "createCampaign", [tokenAddress, REWARD_AMOUNT * 10, VALID_AFTER, VALID_UNTIL]);
+    await executeOperation(distributor, "createCampaign", [tokenAddress, REWARD_AMOUNT * 10, VALID_AFTER, VALID_UNTIL]);
+    await claimCampaign(distributor, 0, REWARD_AMOUNT, 0);
+    await claimCampaign(distributor, 1, REWARD_AMOUNT * 2, 1);
+    await claimCampaign(distributor, 0, REWARD_AMOUNT * 3, 2);
+    const state = await indexEvents(distributor, undefined, { fromBlock: deploymentBlock, confirmations: 0 });
+
+    expect(state.events.filter((event) => event.event === "CampaignRewardPaid")[0]).to.include({
+      campaignId: "0",
+      user: user.address,
+      amount: String(REWARD_AMOUNT)
+    });
+    expect(summarizeByCampaign(state.events)).to.deep.eq([
+      { campaignId: "0", claims: 2, total: String(REWARD_AMOUNT * 4) },
+      { campaignId: "1", claims: 1, total: String(REWARD_AMOUNT * 2) }
+    ]);
+    // Campaign payouts are also counted by their `RewardPaid` event.
+    expect(summarizeByUser(state.events)).to.deep.eq([
+      { user: user.address, token: tokenAddress, claims: 3, total: String(REWARD_AMOUNT * 6) }
+    ]);
+
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "events-"));
+    try {
+      writeReports(state, outputDir);
+
+      const campaigns = fs.readFileSync(path.join(outputDir, "campaigns.csv"), "utf8").trim().split("\n");
+      expect(campaigns).to.deep.eq(["campaignId,claims,total", `0,2,${REWARD_AMOUNT * 4}`, `1,1,${REWARD_AMOUNT * 2}`]);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
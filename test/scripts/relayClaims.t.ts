@@ -0,0 +1,85 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { getDomain, signClaim, SignedClaim } from "../../scripts/voucher";
+import { connectDistributor, relayClaims } from "../../scripts/relayClaims";
+import { deployTokenAndDistributor } from "../fixtures";
+
+describe("Script 'relayClaims'", async () => {
+  const SUPPLY_AMOUNT = 1_000_000;
+  const REWARD_AMOUNT = 100;
+  const HARDHAT_CHAIN_ID = 31337;
+  const VALID_AFTER = 0;
+  const VALID_UNTIL = 4_102_444_800; // 2100-01-01
+
+  let user: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+
+  before(async () => {
+    [, user, relayer, signer] = await ethers.getSigners();
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+  }> {
+    return await deployTokenAndDistributor(signer.address, SUPPLY_AMOUNT);
+  }
+
+  async function createVoucher(distributor: Contract, amount: number, nonce: number): Promise<SignedClaim> {
+    const claim = {
+      user: user.address,
+      token: await distributor.token(),
+      amount,
+      nonce,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    };
+    const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+    return { ...claim, signature: await signClaim(signer, domain, claim) };
+  }
+
+  it("Relays the claims in nonce order and pays the users", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    const requests = [
+      await createVoucher(distributor, REWARD_AMOUNT, 1),
+      await createVoucher(distributor, REWARD_AMOUNT, 0)
+    ];
+
+    const results = await relayClaims(distributor.connect(relayer) as Contract, requests);
+
+    expect(results.map((result) => result.nonce)).to.deep.eq(["0", "1"]);
+    expect(results.every((result) => result.transactionHash && !result.error)).to.eq(true);
+    expect(await token.balanceOf(user.address)).to.eq(2 * REWARD_AMOUNT);
+    expect(await token.balanceOf(relayer.address)).to.eq(0);
+    expect(await distributor.getNonce(user.address)).to.eq(2);
+  });
+
+  it("Reports and skips the claims that would revert", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    const tampered = await createVoucher(distributor, REWARD_AMOUNT, 0);
+    tampered.amount = REWARD_AMOUNT * 10;
+    const requests = [
+      tampered,
+      await createVoucher(distributor, REWARD_AMOUNT, 0),
+      await createVoucher(distributor, REWARD_AMOUNT, 2)
+    ];
+
+    const results = await relayClaims(distributor.connect(relayer) as Contract, requests);
+
+    expect(results.map((result) => result.error)).to.deep.eq(["InvalidSignature", undefined, "InvalidNonce"]);
+    expect(await token.balanceOf(user.address)).to.eq(REWARD_AMOUNT);
+  });
+
+  it("Names every custom error of the distributor it connects to", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const contract = connectDistributor(await distributor.getAddress(), relayer);
+
+    const results = await relayClaims(contract, [await createVoucher(distributor, SUPPLY_AMOUNT + 1, 0)]);
+
+    expect(results.map((result) => result.error)).to.deep.eq(["InsufficientFunds"]);
+  });
+});
@@ -0,0 +1,104 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { getDomain, hashClaim, signClaim } from "../../scripts/voucher";
+import { parseRevocationTargets, revokeVouchers } from "../../scripts/revokeVouchers";
+import { VoucherStore } from "../../scripts/signingService";
+import { deployTokenAndDistributor } from "../fixtures";
+
+describe("Script 'revokeVouchers'", async () => {
+  const REWARD_AMOUNT = 100;
+  const HARDHAT_CHAIN_ID = 31337;
+  const VALID_AFTER = 0;
+  const VALID_UNTIL = 4_102_444_800; // 2100-01-01
+
+  let user: HardhatEthersSigner;
+  let random: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+
+  before(async () => {
+    [, user, random, signer] = await ethers.getSigners();
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+  }> {
+    return await deployTokenAndDistributor(signer.address);
+  }
+
+  it("Sorts the arguments into voucher hashes and users", async () => {
+    const claimHash = ethers.id("voucher");
+
+    const targets = parseRevocationTargets([user.address.toLowerCase(), claimHash, `${random.address}:7`]);
+
+    expect(targets.claimHashes).to.deep.eq([claimHash]);
+    expect(targets.users).to.deep.eq([user.address, random.address]);
+    expect(targets.issuedNonces).to.deep.eq({ [random.address]: 7n });
+    expect(() => parseRevocationTargets(["0x1234"])).to.throw("Not a voucher hash or an address: 0x1234");
+    expect(() => parseRevocationTargets([`${user.address}:x`]))
+      .to.throw(`Not a voucher hash or an address: ${user.address}:x`);
+  });
+
+  it("Revokes the vouchers and bumps the nonces of the users", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const claimHash = hashClaim(getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID), {
+      user: user.address,
+      token: await distributor.token(),
+      amount: REWARD_AMOUNT,
+      nonce: 0,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    });
+
+    const results = await revokeVouchers(distributor, {
+      users: [random.address],
+      claimHashes: [claimHash],
+      issuedNonces: {}
+    });
+
+    expect(results.map((result) => result.target)).to.deep.eq([claimHash, random.address]);
+    expect(await distributor.isClaimRevoked(claimHash)).to.eq(true);
+    expect(await distributor.getNonce(random.address)).to.eq(1);
+    expect(await distributor.getNonce(user.address)).to.eq(0);
+  });
+
+  it("Bumps the nonces past the highest issued ones", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    await token.transfer(await distributor.getAddress(), REWARD_AMOUNT * 3);
+    const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+    const store = new VoucherStore();
+    for (const nonce of [0, 1, 2]) {
+      const claim = {
+        user: user.address,
+        token: await token.getAddress(),
+        amount: REWARD_AMOUNT,
+        nonce,
+        validAfter: VALID_AFTER,
+        validUntil: VALID_UNTIL
+      };
+      store.add({ ...claim, signature: await signClaim(signer, domain, claim) });
+    }
+
+    await revokeVouchers(
+      distributor,
+      { users: [user.address, random.address], claimHashes: [], issuedNonces: { [random.address]: 4n } },
+      store
+    );
+
+    expect(await distributor.getNonce(user.address)).to.eq(3);
+    expect(await distributor.getNonce(random.address)).to.eq(5);
+    for (const voucher of store.list(user.address)) {
+      await expect(distributor.connect(user).getFunction("claimReward")(
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil,
+        voucher.signature
+      )).to.be.revertedWithCustomError(distributor, "InvalidNonce");
+    }
+  });
+});
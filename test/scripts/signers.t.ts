@@ -0,0 +1,132 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { HDNodeWallet, Wallet, encryptKeystoreJsonSync, Transaction } from "ethers";
+import { AddressInfo } from "net";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { CLAIM_TYPES, getDomain } from "../../scripts/voucher";
+import { createSigner, loadSignerConfig, RemoteSigner } from "../../scripts/signers";
+
+describe("Script 'signers'", async () => {
+  const MNEMONIC = "test test test test test test test test test test test junk";
+  const KEYSTORE_PASSWORD = "password";
+  const HARDHAT_CHAIN_ID = 31337;
+
+  // Signs the requests of the remote signer protocol with a local key.
+  function startRemoteSigner(wallet: HDNodeWallet | Wallet): Promise<http.Server> {
+    const server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", async () => {
+        const { id, method, params } = JSON.parse(body);
+        let result: string;
+        if (method === "eth_sign") {
+          result = await wallet.signMessage(ethers.getBytes(params[1]));
+        } else if (method === "eth_signTypedData_v4") {
+          const { domain, types, message } = JSON.parse(params[1]);
+          delete types.EIP712Domain;
+          result = await wallet.signTypedData(domain, types, message);
+        } else {
+          result = await wallet.signTransaction(Transaction.from(params[0]));
+        }
+        response.end(JSON.stringify({ jsonrpc: "2.0", id, result }));
+      });
+    });
+    return new Promise((resolve) => server.listen(0, () => resolve(server)));
+  }
+
+  describe("Function 'loadSignerConfig()'", async () => {
+    it("Falls back to the legacy private key variable", async () => {
+      expect(loadSignerConfig("SIGNER", "LOCALHOST_PK", { LOCALHOST_PK: "0x01" }))
+        .to.deep.eq({ type: "privateKey", privateKey: "0x01" });
+      expect(loadSignerConfig("SIGNER", "LOCALHOST_PK", { LOCALHOST_PK: "0x01", SIGNER_PRIVATE_KEY: "0x02" }))
+        .to.deep.eq({ type: "privateKey", privateKey: "0x02" });
+    });
+
+    it("Reads the configuration of each signer type", async () => {
+      const address = Wallet.createRandom().address;
+
+      expect(loadSignerConfig("ADMIN", "ADMIN_PK", {
+        ADMIN_TYPE: "keystore",
+        ADMIN_KEYSTORE: "admin.json",
+        ADMIN_KEYSTORE_PASSWORD: KEYSTORE_PASSWORD
+      })).to.deep.eq({ type: "keystore", path: "admin.json", password: KEYSTORE_PASSWORD });
+      expect(loadSignerConfig("ADMIN", "ADMIN_PK", { ADMIN_TYPE: "mnemonic", ADMIN_MNEMONIC: MNEMONIC }))
+        .to.deep.eq({ type: "mnemonic", mnemonic: MNEMONIC, path: "m/44'/60'/0'/0/0" });
+      expect(loadSignerConfig("ADMIN", "ADMIN_PK", {
+        ADMIN_TYPE: "remote",
+        ADMIN_REMOTE_URL: "http://signer",
+        ADMIN_ADDRESS: address.toLowerCase()
+      })).to.deep.eq({ type: "remote", url: "http://signer", address });
+    });
+
+    it("Rejects incomplete configurations and unknown types", async () => {
+      expect(() => loadSignerConfig("SIGNER", "LOCALHOST_PK", {})).to.throw("LOCALHOST_PK is not set");
+      expect(() => loadSignerConfig("SIGNER", "LOCALHOST_PK", { SIGNER_TYPE: "keystore", SIGNER_KEYSTORE: "a.json" }))
+        .to.throw("SIGNER_KEYSTORE_PASSWORD is not set");
+      expect(() => loadSignerConfig("SIGNER", "LOCALHOST_PK", { SIGNER_TYPE: "ledger" }))
+        .to.throw("Unknown signer type: ledger");
+    });
+  });
+
+  describe("Function 'createSigner()'", async () => {
+    it("Loads a signer from an encrypted keystore", async () => {
+      const wallet = Wallet.createRandom();
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"));
+      try {
+        const keystore = path.join(directory, "signer.json");
+        const json = encryptKeystoreJsonSync({ address: wallet.address, privateKey: wallet.privateKey }, KEYSTORE_PASSWORD, { scrypt: { N: 1024 } });
+        fs.writeFileSync(keystore, json);
+
+        const signer = await createSigner({ type: "keystore", path: keystore, password: KEYSTORE_PASSWORD });
+
+        expect(await signer.getAddress()).to.eq(wallet.address);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it("Derives a signer from a mnemonic and a derivation path", async () => {
+      const [, second] = await ethers.getSigners();
+
+      const signer = await createSigner({ type: "mnemonic", mnemonic: MNEMONIC, path: "m/44'/60'/0'/0/1" });
+
+      expect(await signer.getAddress()).to.eq(second.address);
+    });
+  });
+
+  describe("Class 'RemoteSigner'", async () => {
+    it("Signs messages, typed data and transactions through the remote service", async () => {
+      const [deployer, recipient] = await ethers.getSigners();
+      const wallet = Wallet.createRandom();
+      const server = await startRemoteSigner(wallet);
+      try {
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const signer = (await createSigner({ type: "remote", url, address: wallet.address }, ethers.provider)) as RemoteSigner;
+
+        const signature = await signer.signMessage("hello");
+        expect(ethers.verifyMessage("hello", signature)).to.eq(wallet.address);
+
+        const domain = getDomain(recipient.address, HARDHAT_CHAIN_ID);
+        const claim = {
+          user: recipient.address,
+          token: deployer.address,
+          amount: 100,
+          nonce: 0,
+          validAfter: 0,
+          validUntil: 1
+        };
+        const typedSignature = await signer.signTypedData(domain, CLAIM_TYPES, claim);
+        expect(ethers.verifyTypedData(domain, CLAIM_TYPES, claim, typedSignature)).to.eq(wallet.address);
+
+        await deployer.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") });
+        await expect(signer.sendTransaction({ to: recipient.address, value: 1 }))
+          .to.changeEtherBalance(recipient, 1);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+});
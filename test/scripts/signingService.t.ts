@@ -0,0 +1,176 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { AddressInfo } from "net";
+import http from "http";
+import { SignedClaim } from "../../scripts/voucher";
+import {
+  DEFAULT_HOST,
+  MAX_BODY_SIZE,
+  createSigningService,
+  getNextNonce,
+  IssuancePolicy
+} from "../../scripts/signingService";
+import { deployTokenAndDistributor } from "../fixtures";
+
+// The body of a response of the service, a voucher or an error.
+interface VoucherResponse {
+  voucher: SignedClaim;
+  claimRewardArgs: unknown[];
+  error?: string;
+}
+
+describe("Script 'signingService'", async () => {
+  const SUPPLY_AMOUNT = 1_000_000;
+  const REWARD_AMOUNT = 100;
+  const HARDHAT_CHAIN_ID = 31337;
+  const AUTH_TOKEN = "secret";
+
+  let user: HardhatEthersSigner;
+  let random: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+  let server: http.Server | undefined;
+
+  before(async () => {
+    [, user, random, signer] = await ethers.getSigners();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+    server = undefined;
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+  }> {
+    return await deployTokenAndDistributor(signer.address, SUPPLY_AMOUNT);
+  }
+
+  async function startService(distributor: Contract, policy?: IssuancePolicy): Promise<string> {
+    server = createSigningService({
+      signer,
+      distributorAddress: await distributor.getAddress(),
+      chainId: HARDHAT_CHAIN_ID,
+      token: await distributor.token(),
+      policy,
+      getNonce: async (address) => await distributor.getNonce(address),
+      authToken: AUTH_TOKEN
+    });
+    await new Promise((resolve) => server!.listen(0, DEFAULT_HOST, () => resolve(undefined)));
+    return `http://${DEFAULT_HOST}:${(server!.address() as AddressInfo).port}`;
+  }
+
+  async function requestVoucher(
+    url: string,
+    body: object | string,
+    authToken: string = AUTH_TOKEN
+  ): Promise<{ status: number; body: VoucherResponse }> {
+    const response = await fetch(`${url}/vouchers`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${authToken}` },
+      body: typeof body === "string" ? body : JSON.stringify(body)
+    });
+    const responseBody: unknown = await response.json();
+    return { status: response.status, body: responseBody as VoucherResponse };
+  }
+
+  it("Issues a voucher ready for 'claimReward()'", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    const url = await startService(distributor);
+
+    const response = await requestVoucher(url, { user: user.address, amount: REWARD_AMOUNT });
+
+    expect(response.status).to.eq(201);
+    expect(response.body.voucher).to.include({ user: user.address, amount: String(REWARD_AMOUNT), nonce: "0" });
+    await expect((distributor.connect(user) as Contract).claimReward(...response.body.claimRewardArgs))
+      .to.changeTokenBalances(token, [distributor, user], [-REWARD_AMOUNT, REWARD_AMOUNT]);
+  });
+
+  it("Gives distinct nonces to concurrent requests for the same user", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    const url = await startService(distributor);
+
+    const responses = await Promise.all([
+      requestVoucher(url, { user: user.address, amount: REWARD_AMOUNT }),
+      requestVoucher(url, { user: user.address.toLowerCase(), amount: REWARD_AMOUNT }),
+      requestVoucher(url, { user: random.address, amount: REWARD_AMOUNT })
+    ]);
+
+    const vouchers: SignedClaim[] = responses.map((response) => response.body.voucher);
+    expect(vouchers.map((voucher) => voucher.nonce).sort()).to.deep.eq(["0", "0", "1"]);
+    const userResponses = responses.slice(0, 2).sort((a, b) => Number(a.body.voucher.nonce) - Number(b.body.voucher.nonce));
+    for (const response of userResponses) {
+      await (distributor.connect(user) as Contract).claimReward(...response.body.claimRewardArgs);
+    }
+    expect(await token.balanceOf(user.address)).to.eq(REWARD_AMOUNT * 2);
+
+    const next = await requestVoucher(url, { user: user.address, amount: REWARD_AMOUNT });
+    expect(next.body.voucher.nonce).to.eq("2");
+  });
+
+  it("Enforces the issuance policy", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const url = await startService(distributor, { maxAmount: BigInt(REWARD_AMOUNT), allowedUsers: [user.address] });
+
+    expect((await requestVoucher(url, { user: user.address, amount: REWARD_AMOUNT + 1 })).status).to.eq(403);
+    expect((await requestVoucher(url, { user: random.address, amount: REWARD_AMOUNT })).status).to.eq(403);
+    expect((await requestVoucher(url, { user: user.address, amount: 0 })).status).to.eq(400);
+    expect((await requestVoucher(url, { user: "0x1234", amount: REWARD_AMOUNT })).status).to.eq(400);
+    expect((await requestVoucher(url, { user: user.address, amount: "abc" })).status).to.eq(400);
+    expect((await requestVoucher(url, "not json")).status).to.eq(400);
+    expect((await requestVoucher(url, { user: user.address, amount: REWARD_AMOUNT })).status).to.eq(201);
+  });
+
+  it("Rejects unauthenticated and oversized requests", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const url = await startService(distributor);
+
+    const unauthorized = await requestVoucher(url, { user: user.address, amount: REWARD_AMOUNT }, "wrong");
+    expect(unauthorized).to.deep.eq({ status: 401, body: { error: "Unauthorized" } });
+    const missing = await fetch(`${url}/vouchers`, {
+      method: "POST",
+      body: JSON.stringify({ user: user.address, amount: REWARD_AMOUNT })
+    });
+    expect(missing.status).to.eq(401);
+    const oversized = await requestVoucher(url, { user: user.address, amount: REWARD_AMOUNT, padding: "x".repeat(MAX_BODY_SIZE) });
+    expect(oversized.status).to.eq(413);
+    expect(() => createSigningService({
+      signer,
+      distributorAddress: ethers.ZeroAddress,
+      chainId: HARDHAT_CHAIN_ID,
+      token: ethers.ZeroAddress,
+      authToken: ""
+    })).to.throw("The signing service requires an authentication token");
+  });
+
+  it("Starts the validity windows at the latest block", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    await time.increase(365 * 86_400);
+    const url = await startService(distributor);
+
+    const response = await requestVoucher(url, { user: user.address, amount: REWARD_AMOUNT });
+
+    expect(response.body.voucher.validAfter).to.eq(await time.latest());
+  });
+
+  it("Reissues the nonces of expired vouchers", async () => {
+    const voucher = (nonce: bigint, validUntil: number) => ({
+      user: user.address,
+      token: ethers.ZeroAddress,
+      amount: REWARD_AMOUNT,
+      nonce,
+      validAfter: 0,
+      validUntil,
+      signature: "0x"
+    });
+
+    expect(getNextNonce([voucher(3n, 100), voucher(4n, 100)], 3n, 50)).to.eq(5n);
+    expect(getNextNonce([voucher(3n, 10), voucher(4n, 100)], 3n, 50)).to.eq(3n);
+    expect(getNextNonce([voucher(1n, 100)], 3n, 50)).to.eq(3n);
+    // Above 2^53, the largest integer a `number` holds exactly.
+    expect(getNextNonce([voucher(2n ** 60n, 100)], 2n ** 60n, 50)).to.eq(2n ** 60n + 1n);
+  });
+});
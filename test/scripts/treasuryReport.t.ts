@@ -0,0 +1,134 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { NATIVE_TOKEN, getDomain, signCampaignClaim, signClaim } from "../../scripts/voucher";
+import {
+  DEFAULT_LOOKBACK_DAYS,
+  findFirstBlockAt,
+  getCampaignReports,
+  getTreasuryReport
+} from "../../scripts/treasuryReport";
+import { deployTokenAndDistributor, executeOperation } from "../fixtures";
+
+describe("Script 'treasuryReport'", async () => {
+  const SUPPLY_AMOUNT = 1_000_000;
+  const REWARD_AMOUNT = 3_000;
+  const HARDHAT_CHAIN_ID = 31337;
+  const VALID_AFTER = 0;
+  const VALID_UNTIL = 4_102_444_800; // 2100-01-01
+
+  let user: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+
+  before(async () => {
+    [, user, signer] = await ethers.getSigners();
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+  }> {
+    return await deployTokenAndDistributor(signer.address, SUPPLY_AMOUNT);
+  }
+
+  async function claim(distributor: Contract, rewardToken: string, nonce: number) {
+    const voucher = {
+      user: user.address,
+      token: rewardToken,
+      amount: REWARD_AMOUNT,
+      nonce,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    };
+    const domain = getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID);
+    const signature = await signClaim(signer, domain, voucher);
+    await (distributor.connect(user) as Contract).claimReward(
+      voucher.token,
+      voucher.amount,
+      voucher.nonce,
+      voucher.validAfter,
+      voucher.validUntil,
+      signature
+    );
+  }
+
+  it("Reports the balance, the distributed amount and the runway", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    const tokenAddress = await token.getAddress();
+    await claim(distributor, tokenAddress, 0);
+    await time.increase((DEFAULT_LOOKBACK_DAYS + 1) * 86_400);
+    await claim(distributor, tokenAddress, 1);
+    await claim(distributor, tokenAddress, 2);
+
+    const report = await getTreasuryReport(distributor, tokenAddress);
+
+    const balance = BigInt(SUPPLY_AMOUNT - REWARD_AMOUNT * 3);
+    const dailyOutflow = BigInt(REWARD_AMOUNT * 2 / DEFAULT_LOOKBACK_DAYS);
+    expect(report.balance).to.eq(balance);
+    expect(report.available).to.eq(balance);
+    expect(report.reserved).to.eq(0n);
+    expect(report.distributed).to.eq(BigInt(REWARD_AMOUNT * 3));
+    expect(report.dailyOutflow).to.eq(dailyOutflow);
+    expect(report.runwayDays).to.eq(Number(balance * 100n / dailyOutflow) / 100);
+  });
+
+  it("Finds the first block of the lookback period", async () => {
+    await loadFixture(deployContracts);
+    await time.increase(86_400);
+    const first = await time.latestBlock();
+    const timestamp = await time.latest();
+    await time.increase(60);
+
+    expect(await findFirstBlockAt(ethers.provider, timestamp, first + 1)).to.eq(first);
+    expect(await findFirstBlockAt(ethers.provider, timestamp - 1, first + 1)).to.eq(first);
+    expect(await findFirstBlockAt(ethers.provider, timestamp + 1, first + 1)).to.eq(first + 1);
+    expect(await findFirstBlockAt(ethers.provider, 0, first + 1)).to.eq(0);
+  });
+
+  it("Reports an unlimited runway without recent payouts", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    await distributor.deposit({ value: SUPPLY_AMOUNT });
+
+    const report = await getTreasuryReport(distributor, NATIVE_TOKEN);
+
+    expect(report.balance).to.eq(BigInt(SUPPLY_AMOUNT));
+    expect(report.distributed).to.eq(0n);
+    expect(report.runwayDays).to.eq(null);
+  });
+
+  it("Reports the budget consumption of the campaigns", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    const tokenAddress = await token.getAddress();
+    const now = await time.latest();
+    await executeOperation(distributor, "createCampaign", [tokenAddress, REWARD_AMOUNT * 2, VALID_AFTER, VALID_UNTIL]);
+    await executeOperation(distributor, "createCampaign", [tokenAddress, REWARD_AMOUNT, now + 1_000, VALID_UNTIL]);
+    await executeOperation(distributor, "allowToken", [NATIVE_TOKEN]);
+    await executeOperation(distributor, "createCampaign", [NATIVE_TOKEN, REWARD_AMOUNT, VALID_AFTER, VALID_UNTIL]);
+    await distributor.setCampaignActive(2, false);
+    const voucher = {
+      user: user.address,
+      campaignId: 0,
+      amount: REWARD_AMOUNT,
+      nonce: 0,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    };
+    const signature = await signCampaignClaim(signer, getDomain(await distributor.getAddress(), HARDHAT_CHAIN_ID), voucher);
+    await distributor.claimCampaignReward(user.address, 0, REWARD_AMOUNT, 0, VALID_AFTER, VALID_UNTIL, signature);
+
+    const reports = await getCampaignReports(distributor, now + 10);
+
+    expect(reports.length).to.eq(3);
+    expect(reports[0]).to.deep.include({
+      token: tokenAddress,
+      budget: BigInt(REWARD_AMOUNT * 2),
+      spent: BigInt(REWARD_AMOUNT),
+      remaining: BigInt(REWARD_AMOUNT),
+      live: true
+    });
+    expect(reports[1].live).to.eq(false);
+    expect(reports[2]).to.deep.include({ token: NATIVE_TOKEN, live: false });
+  });
+});
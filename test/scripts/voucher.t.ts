@@ -0,0 +1,111 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  BASIS_POINTS,
+  MAX_SPLIT_RECIPIENTS,
+  checkPayouts,
+  checkUnvestedAmount,
+  getDomain,
+  signSplitClaim,
+  splitAmount,
+} from "../../scripts/voucher";
+
+describe("Script 'voucher' split payouts", async () => {
+  const HARDHAT_CHAIN_ID = 31337;
+  const VALID_AFTER = 0;
+  const VALID_UNTIL = 4_102_444_800; // 2100-01-01
+
+  let user: HardhatEthersSigner;
+  let referrer: HardhatEthersSigner;
+  let treasury: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+
+  before(async () => {
+    [, user, referrer, treasury, signer] = await ethers.getSigners();
+  });
+
+  it("Splits an amount by basis points", () => {
+    const payouts = splitAmount(1_000n, [
+      { recipient: user.address, bps: 8_000 },
+      { recipient: referrer.address, bps: 1_500 },
+      { recipient: treasury.address, bps: 500 }
+    ]);
+
+    expect(payouts).to.deep.eq([
+      { recipient: user.address, amount: 800n },
+      { recipient: referrer.address, amount: 150n },
+      { recipient: treasury.address, amount: 50n }
+    ]);
+    expect(checkPayouts(payouts)).to.eq(1_000n);
+  });
+
+  it("Gives the rounding remainder to the first recipient", () => {
+    const payouts = splitAmount(100n, [
+      { recipient: user.address, bps: 3_333 },
+      { recipient: referrer.address, bps: 3_333 },
+      { recipient: treasury.address, bps: 3_334 }
+    ]);
+
+    expect(payouts.map((payout) => payout.amount)).to.deep.eq([34n, 33n, 33n]);
+    expect(checkPayouts(payouts)).to.eq(100n);
+  });
+
+  it("Rejects shares that do not add up or round to nothing", () => {
+    expect(() => splitAmount(100n, [
+      { recipient: user.address, bps: 9_000 },
+      { recipient: referrer.address, bps: 500 }
+    ])).to.throw(`Shares add up to 9500 basis points, not ${BASIS_POINTS}`);
+    expect(() => splitAmount(100n, [
+      { recipient: user.address, bps: 10_000.5 }
+    ])).to.throw("Invalid share 10000.5");
+    expect(() => splitAmount(10n, [
+      { recipient: user.address, bps: 9_999 },
+      { recipient: referrer.address, bps: 1 }
+    ])).to.throw(`Invalid amount 0 for ${referrer.address}`);
+  });
+
+  it("Rejects duplicate recipients, whatever their case", () => {
+    expect(() => checkPayouts([
+      { recipient: user.address, amount: 1n },
+      { recipient: user.address.toLowerCase(), amount: 2n }
+    ])).to.throw(`Duplicate recipient ${user.address}`);
+    expect(() => splitAmount(100n, [
+      { recipient: user.address, bps: 5_000 },
+      { recipient: user.address, bps: 5_000 }
+    ])).to.throw(`Duplicate recipient ${user.address}`);
+  });
+
+  it("Rejects empty and oversize lists and the zero address", () => {
+    const recipients = Array.from({ length: MAX_SPLIT_RECIPIENTS + 1 }, () => ethers.Wallet.createRandom().address);
+
+    expect(() => checkPayouts([])).to.throw(`between 1 and ${MAX_SPLIT_RECIPIENTS} recipients, got 0`);
+    expect(() => checkPayouts(recipients.map((recipient) => ({ recipient, amount: 1n })))).to.throw(
+      `between 1 and ${MAX_SPLIT_RECIPIENTS} recipients, got ${MAX_SPLIT_RECIPIENTS + 1}`
+    );
+    expect(() => checkPayouts(recipients.slice(0, MAX_SPLIT_RECIPIENTS).map((recipient) => ({ recipient, amount: 1n }))))
+      .not.to.throw();
+    expect(() => checkPayouts([{ recipient: ethers.ZeroAddress, amount: 1n }])).to.throw(
+      "A split cannot pay the zero address"
+    );
+  });
+
+  it("Rejects payouts above the vesting threshold", () => {
+    expect(() => checkUnvestedAmount(1_001n, 1_000n)).to.throw("The payout of 1001 is above the vesting threshold of 1000");
+    expect(() => checkUnvestedAmount(1_000n, 1_000n)).not.to.throw();
+    expect(() => checkUnvestedAmount(1_001n, 0n)).not.to.throw();
+  });
+
+  it("Refuses to sign payouts the contract would reject", async () => {
+    const domain = getDomain(ethers.ZeroAddress, HARDHAT_CHAIN_ID);
+
+    await expect(signSplitClaim(signer, domain, {
+      user: user.address,
+      token: ethers.ZeroAddress,
+      payouts: [],
+      nonce: 0,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL
+    })).to.be.rejectedWith("A split must have between 1 and");
+  });
+});
@@ -0,0 +1,175 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+  CampaignBudgetExceededError,
+  CampaignNotActiveError,
+  EnforcedPauseError,
+  FundsDistributorClient,
+  FundsDistributorError,
+  InvalidNonceError,
+  InvalidSplitError,
+  RewardPaid,
+  SignatureAlreadyUsedError,
+  UnknownCampaignError,
+  parseVoucher,
+  serializeVoucher,
+  toDistributorError
+} from "../../sdk";
+import { deployTokenAndDistributor, executeOperation } from "../fixtures";
+
+describe("SDK 'FundsDistributorClient'", async () => {
+  const REWARD_AMOUNT = 100n;
+  // Above 2^53, the largest integer a `number` holds exactly.
+  const LARGE_AMOUNT = 2n ** 60n + 1n;
+  const VOUCHER_TTL = 10 * 365 * 24 * 60 * 60;
+
+  let user: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+
+  before(async () => {
+    [, user, relayer, signer] = await ethers.getSigners();
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+    client: FundsDistributorClient;
+  }> {
+    const { token, distributor } = await deployTokenAndDistributor(signer.address);
+    await token.mint(await distributor.getAddress(), LARGE_AMOUNT + REWARD_AMOUNT);
+
+    return {
+      token,
+      distributor,
+      client: new FundsDistributorClient(await distributor.getAddress(), user)
+    };
+  }
+
+  it("Creates vouchers at the next nonce of the user in the default token", async () => {
+    const { token, client } = await loadFixture(deployContracts);
+
+    const voucher = await client.createVoucher(signer, { user: user.address, amount: REWARD_AMOUNT, ttl: VOUCHER_TTL });
+
+    expect(voucher.user).to.eq(user.address);
+    expect(voucher.token).to.eq(await token.getAddress());
+    expect(voucher.amount).to.eq(REWARD_AMOUNT);
+    expect(voucher.nonce).to.eq(0n);
+    expect(voucher.validAfter).to.eq(BigInt(await time.latest()));
+    expect(voucher.validUntil - voucher.validAfter).to.eq(BigInt(VOUCHER_TTL));
+    expect(await client.verifyVoucher(voucher)).to.eq(true);
+  });
+
+  it("Rejects vouchers not signed by a signer", async () => {
+    const { client } = await loadFixture(deployContracts);
+
+    const voucher = await client.createVoucher(relayer, { user: user.address, amount: REWARD_AMOUNT });
+
+    expect(await client.verifyVoucher(voucher)).to.eq(false);
+  });
+
+  it("Claims amounts above 2^53 without losing precision", async () => {
+    const { token, client } = await loadFixture(deployContracts);
+    const voucher = await client.createVoucher(signer, { user: user.address, amount: LARGE_AMOUNT, ttl: VOUCHER_TTL });
+
+    expect(await client.isUsed(voucher)).to.eq(false);
+
+    await client.claim(parseVoucher(JSON.parse(JSON.stringify(serializeVoucher(voucher)))));
+
+    expect(await token.balanceOf(user.address)).to.eq(LARGE_AMOUNT);
+    expect(await client.isUsed(voucher)).to.eq(true);
+    expect(await client.getNonce(user.address)).to.eq(1n);
+  });
+
+  it("Claims on behalf of the user when connected to a relayer", async () => {
+    const { token, client } = await loadFixture(deployContracts);
+    const voucher = await client.createVoucher(signer, { user: user.address, amount: REWARD_AMOUNT, ttl: VOUCHER_TTL });
+
+    await client.connect(relayer).claim(voucher);
+
+    expect(await token.balanceOf(user.address)).to.eq(REWARD_AMOUNT);
+    expect(await token.balanceOf(relayer.address)).to.eq(0);
+  });
+
+  it("Throws the typed exception of the custom error", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+    const voucher = await client.createVoucher(signer, { user: user.address, amount: REWARD_AMOUNT, ttl: VOUCHER_TTL });
+    const future = await client.createVoucher(signer, {
+      user: user.address,
+      amount: REWARD_AMOUNT,
+      nonce: 5n,
+      ttl: VOUCHER_TTL
+    });
+    await client.claim(voucher);
+
+    const replay = await client.claim(voucher).catch((error) => error);
+    const early = await client.claim(future).catch((error) => error);
+    await distributor.pause();
+    const paused = await client.claim(future).catch((error) => error);
+
+    expect(replay).to.be.instanceOf(SignatureAlreadyUsedError);
+    expect(replay).to.be.instanceOf(FundsDistributorError);
+    expect(replay.errorName).to.eq("SignatureAlreadyUsed");
+    expect(early).to.be.instanceOf(InvalidNonceError);
+    expect(paused).to.be.instanceOf(EnforcedPauseError);
+  });
+
+  it("Maps the reverts of campaign and split claims to typed exceptions", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const validAfter = await time.latest();
+    const validUntil = validAfter + VOUCHER_TTL;
+    await executeOperation(distributor, "createCampaign", [await distributor.token(), REWARD_AMOUNT, validAfter, validUntil]);
+    const toError = (tx: Promise<unknown>) => tx.catch((error) => toDistributorError(distributor.interface, error));
+    const claimCampaign = (campaignId: number, amount: bigint) =>
+      toError(distributor.claimCampaignReward(user.address, campaignId, amount, 0, validAfter, validUntil, "0x"));
+
+    expect(await claimCampaign(1, REWARD_AMOUNT)).to.be.instanceOf(UnknownCampaignError);
+    expect(await claimCampaign(0, REWARD_AMOUNT + 1n)).to.be.instanceOf(CampaignBudgetExceededError);
+    expect(await toError(distributor.claimSplitReward(
+      user.address,
+      await distributor.token(),
+      [],
+      0,
+      validAfter,
+      validUntil,
+      "0x"
+    ))).to.be.instanceOf(InvalidSplitError);
+    await distributor.setCampaignActive(0, false);
+    expect(await claimCampaign(0, REWARD_AMOUNT)).to.be.instanceOf(CampaignNotActiveError);
+  });
+
+  it("Leaves the reverts that are not custom errors of the contract unchanged", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    // The total of the payouts overflows, which panics before the voucher is checked.
+    const payouts = [
+      { recipient: user.address, amount: ethers.MaxUint256 },
+      { recipient: relayer.address, amount: 1n }
+    ];
+    const error = await distributor
+      .claimSplitReward(user.address, await distributor.token(), payouts, 0, 0, VOUCHER_TTL, "0x")
+      .catch((error: unknown) => error);
+
+    expect(distributor.interface.parseError(error.data)?.name).to.eq("Panic");
+    expect(toDistributorError(distributor.interface, error)).to.eq(error);
+  });
+
+  it("Subscribes to the rewards paid to a user", async () => {
+    const { token, client } = await loadFixture(deployContracts);
+    const voucher = await client.createVoucher(signer, { user: user.address, amount: REWARD_AMOUNT, ttl: VOUCHER_TTL });
+    let resolveEvent: (event: RewardPaid) => void;
+    const received = new Promise<RewardPaid>((resolve) => (resolveEvent = resolve));
+    const unsubscribe = await client.onRewardPaid((event) => resolveEvent(event), user.address);
+
+    const receipt = await client.claim(voucher);
+    const event = await received;
+    await unsubscribe();
+
+    expect(event.user).to.eq(user.address);
+    expect(event.token).to.eq(await token.getAddress());
+    expect(event.amount).to.eq(REWARD_AMOUNT);
+    expect(event.transactionHash).to.eq(receipt.hash);
+  });
+});
@@ -0,0 +1,203 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract, ContractFactory } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { getDomain, hashClaim, signClaim } from "../../scripts/voucher";
+import {
+  ClaimStatus,
+  FundsDistributorClient,
+  InsufficientFundsError,
+  Voucher,
+  previewClaim,
+  recoverVoucherSigner
+} from "../../sdk";
+import { deployTokenAndDistributor, executeOperation } from "../fixtures";
+
+describe("SDK 'previewClaim'", async () => {
+  const REWARD_AMOUNT = 100n;
+  const SUPPLY_AMOUNT = 1000n;
+  const HARDHAT_CHAIN_ID = 31337n;
+  const VALID_AFTER = 0n;
+  const VALID_UNTIL = 4_102_444_800n; // 2100-01-01
+
+  let tokenFactory: ContractFactory;
+  let user: HardhatEthersSigner;
+  let attacker: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+
+  before(async () => {
+    [, user, attacker, signer] = await ethers.getSigners();
+    tokenFactory = await ethers.getContractFactory("TestToken");
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+    client: FundsDistributorClient;
+  }> {
+    const { token, distributor } = await deployTokenAndDistributor(signer.address, SUPPLY_AMOUNT);
+
+    return {
+      token,
+      distributor,
+      client: new FundsDistributorClient(await distributor.getAddress(), user)
+    };
+  }
+
+  async function createVoucher(
+    distributor: Contract,
+    overrides: Partial<Voucher> = {},
+    voucherSigner: HardhatEthersSigner = signer,
+    chainId: bigint = HARDHAT_CHAIN_ID
+  ): Promise<Voucher> {
+    const claim = {
+      user: user.address,
+      token: await distributor.token(),
+      amount: REWARD_AMOUNT,
+      nonce: 0n,
+      validAfter: VALID_AFTER,
+      validUntil: VALID_UNTIL,
+      ...overrides
+    };
+    const domain = getDomain(await distributor.getAddress(), chainId);
+    return { ...claim, signature: await signClaim(voucherSigner, domain, claim) };
+  }
+
+  async function expectVerdicts(
+    client: FundsDistributorClient,
+    voucher: Voucher,
+    expected: ClaimStatus,
+    chainId: bigint = HARDHAT_CHAIN_ID
+  ) {
+    const onChain = await client.previewClaim(voucher, chainId);
+    const offChain = previewClaim(voucher, chainId, await client.getClaimContext(voucher));
+
+    expect(ClaimStatus[onChain]).to.eq(ClaimStatus[expected]);
+    expect(ClaimStatus[offChain]).to.eq(ClaimStatus[expected]);
+  }
+
+  it("Recovers the signer of the on-chain digest", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+    const voucher = await createVoucher(distributor);
+    const compact = { ...voucher, signature: ethers.Signature.from(voucher.signature).compactSerialized };
+
+    expect(hashClaim(getDomain(address, HARDHAT_CHAIN_ID), voucher)).to.eq(
+      await distributor.hashClaim(
+        voucher.user,
+        voucher.token,
+        voucher.amount,
+        voucher.nonce,
+        voucher.validAfter,
+        voucher.validUntil
+      )
+    );
+    expect(recoverVoucherSigner(voucher, address, HARDHAT_CHAIN_ID)).to.eq(signer.address);
+    expect(recoverVoucherSigner(compact, address, HARDHAT_CHAIN_ID)).to.eq(signer.address);
+    expect(recoverVoucherSigner({ ...voucher, signature: "0x1234" }, address, HARDHAT_CHAIN_ID)).to.eq(null);
+  });
+
+  it("Agrees on a claim that would succeed", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+    const voucher = await createVoucher(distributor);
+
+    await expectVerdicts(client, voucher, ClaimStatus.Ok);
+    await expectVerdicts(
+      client,
+      { ...voucher, signature: ethers.Signature.from(voucher.signature).compactSerialized },
+      ClaimStatus.Ok
+    );
+  });
+
+  it("Agrees on a voucher signed for another chain", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+    const voucher = await createVoucher(distributor, {}, signer, 1n);
+
+    await expectVerdicts(client, voucher, ClaimStatus.WrongChain, 1n);
+  });
+
+  it("Agrees on a paused distributor", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+    await distributor.pause();
+
+    await expectVerdicts(client, await createVoucher(distributor), ClaimStatus.Paused);
+  });
+
+  it("Agrees on vouchers outside their validity window", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+
+    await expectVerdicts(
+      client,
+      await createVoucher(distributor, { validAfter: VALID_UNTIL - 1n }),
+      ClaimStatus.NotYetValid
+    );
+    await expectVerdicts(client, await createVoucher(distributor, { validUntil: 1n }), ClaimStatus.Expired);
+  });
+
+  it("Agrees on a token that is not allowed", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+    const otherToken = (await tokenFactory.deploy()) as Contract;
+    await otherToken.waitForDeployment();
+
+    await expectVerdicts(
+      client,
+      await createVoucher(distributor, { token: await otherToken.getAddress() }),
+      ClaimStatus.TokenNotAllowed
+    );
+  });
+
+  it("Agrees on used vouchers and wrong nonces", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+    const voucher = await createVoucher(distributor);
+    await client.claim(voucher);
+
+    await expectVerdicts(client, voucher, ClaimStatus.Used);
+    await expectVerdicts(client, await createVoucher(distributor, { nonce: 3n }), ClaimStatus.WrongNonce);
+  });
+
+  it("Agrees on revoked vouchers", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+    const voucher = await createVoucher(distributor);
+    await distributor.revokeVouchers([hashClaim(await client.getDomain(), voucher)]);
+
+    await expectVerdicts(client, voucher, ClaimStatus.Revoked);
+  });
+
+  it("Agrees on unauthorized and malformed signatures", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+    const voucher = await createVoucher(distributor, {}, attacker);
+
+    await expectVerdicts(client, voucher, ClaimStatus.BadSigner);
+    await expectVerdicts(client, { ...voucher, signature: "0x1234" }, ClaimStatus.BadSigner);
+  });
+
+  it("Agrees on claims above the rate limits", async () => {
+    const { token, distributor, client } = await loadFixture(deployContracts);
+    await executeOperation(distributor, "configureLimits", [await token.getAddress(), REWARD_AMOUNT - 1n, 0, 0, 86_400]);
+
+    await expectVerdicts(client, await createVoucher(distributor), ClaimStatus.LimitExceeded);
+  });
+
+  it("Agrees on claims above the available balance", async () => {
+    const { distributor, client } = await loadFixture(deployContracts);
+
+    await expectVerdicts(
+      client,
+      await createVoucher(distributor, { amount: SUPPLY_AMOUNT + 1n }),
+      ClaimStatus.InsufficientBalance
+    );
+  });
+
+  it("Agrees on claims dipping into the funds reserved for vesting schedules", async () => {
+    const { token, distributor, client } = await loadFixture(deployContracts);
+    const tokenAddress = await token.getAddress();
+    await executeOperation(distributor, "configureVesting", [tokenAddress, REWARD_AMOUNT * 2n, 0, 86_400]);
+    await client.claim(await createVoucher(distributor, { amount: SUPPLY_AMOUNT - REWARD_AMOUNT + 1n }));
+    expect(await distributor.availableBalance(tokenAddress)).to.eq(REWARD_AMOUNT - 1n);
+    const voucher = await createVoucher(distributor, { nonce: 1n });
+
+    await expectVerdicts(client, voucher, ClaimStatus.InsufficientBalance);
+    await expect(client.claim(voucher)).to.be.rejectedWith(InsufficientFundsError);
+  });
+});
@@ -0,0 +1,240 @@
+import hre, { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract, ContractFactory } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { OPERATION_DELAY, deployTokenAndDistributor } from "../fixtures";
+
+describe("Tasks 'distributor:*'", async () => {
+  const REWARD_AMOUNT = 100n;
+  const SUPPLY_AMOUNT = 1000n;
+  const VOUCHER_TTL = 10 * 365 * 24 * 60 * 60;
+
+  let tokenFactory: ContractFactory;
+  let deployer: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let signer: HardhatEthersSigner;
+  let directory: string;
+  let output: string[];
+  let consoleLog: typeof console.log;
+
+  before(async () => {
+    [deployer, user, relayer, signer] = await ethers.getSigners();
+    tokenFactory = await ethers.getContractFactory("TestToken");
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "distributor-tasks-"));
+    output = [];
+    consoleLog = console.log;
+    console.log = (...args: unknown[]) => output.push(args.join(" "));
+  });
+
+  afterEach(() => {
+    console.log = consoleLog;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function deployContracts(): Promise<{
+    token: Contract;
+    distributor: Contract;
+  }> {
+    return await deployTokenAndDistributor(signer.address, SUPPLY_AMOUNT);
+  }
+
+  async function signVoucher(distributor: Contract, nonce?: bigint): Promise<string> {
+    const out = path.join(directory, `voucher-${nonce ?? "next"}.json`);
+    await hre.run("distributor:sign", {
+      distributor: await distributor.getAddress(),
+      from: signer.address,
+      user: user.address,
+      amount: REWARD_AMOUNT,
+      nonce,
+      ttl: VOUCHER_TTL,
+      out
+    });
+    return out;
+  }
+
+  it("Prints the status of the distributor", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+
+    const status = await hre.run("distributor:status", { distributor: address });
+
+    expect(status.address).to.eq(address);
+    expect(status.implementation).to.eq(await upgrades.erc1967.getImplementationAddress(address));
+    expect(status.paused).to.eq(false);
+    expect(status.token).to.eq(await token.getAddress());
+    expect(status.balance).to.eq(SUPPLY_AMOUNT);
+    expect(output).to.include(`  Default token:  ${await token.getAddress()}`);
+  });
+
+  it("Reads the distributor address from DISTRIBUTOR_ADDRESS", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const previous = process.env.DISTRIBUTOR_ADDRESS;
+    process.env.DISTRIBUTOR_ADDRESS = await distributor.getAddress();
+
+    try {
+      const nonce = await hre.run("distributor:nonce", { user: user.address });
+
+      expect(nonce).to.eq(0n);
+      expect(output).to.deep.eq([`Next nonce of ${user.address}: 0`]);
+    } finally {
+      if (previous === undefined) {
+        delete process.env.DISTRIBUTOR_ADDRESS;
+      } else {
+        process.env.DISTRIBUTOR_ADDRESS = previous;
+      }
+    }
+  });
+
+  it("Signs, verifies and claims a voucher", async () => {
+    const { token, distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+    const voucher = await signVoucher(distributor);
+    expect(JSON.parse(fs.readFileSync(voucher, "utf8")).validAfter).to.eq(await time.latest());
+
+    const verification = await hre.run("distributor:verify", { distributor: address, voucher });
+    await hre.run("distributor:claim", { distributor: address, from: relayer.address, voucher });
+
+    expect(verification.signedBySigner).to.eq(true);
+    expect(verification.error).to.eq(undefined);
+    expect(await token.balanceOf(user.address)).to.eq(REWARD_AMOUNT);
+    expect(await distributor.getNonce(user.address)).to.eq(1);
+  });
+
+  it("Reports why a voucher cannot be claimed", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+    const voucher = await signVoucher(distributor);
+    const future = await signVoucher(distributor, 5n);
+    await hre.run("distributor:claim", { distributor: address, voucher });
+
+    const used = await hre.run("distributor:verify", { distributor: address, voucher });
+    const early = await hre.run("distributor:verify", { distributor: address, voucher: future });
+
+    expect(used.error).to.eq("SignatureAlreadyUsed");
+    expect(early.signedBySigner).to.eq(true);
+    expect(early.error).to.eq("InvalidNonce");
+    expect(output).to.include("  Claimable: no, reverts with InvalidNonce");
+  });
+
+  it("Decodes the custom error of a reverted claim", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+    const voucher = await signVoucher(distributor);
+    await hre.run("distributor:claim", { distributor: address, voucher });
+
+    await expect(hre.run("distributor:claim", { distributor: address, voucher })).to.be.rejectedWith(
+      "claimRewardFor reverted with SignatureAlreadyUsed"
+    );
+  });
+
+  it("Refuses to sign with an account that is not a signer", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+
+    await expect(
+      hre.run("distributor:sign", {
+        distributor: await distributor.getAddress(),
+        user: user.address,
+        amount: REWARD_AMOUNT
+      })
+    ).to.be.rejectedWith(`${deployer.address} is not an authorized signer`);
+  });
+
+  it("Pauses and unpauses the claims", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+    const voucher = await signVoucher(distributor);
+
+    await hre.run("distributor:pause", { distributor: address });
+
+    expect(await distributor.paused()).to.eq(true);
+    await expect(hre.run("distributor:claim", { distributor: address, voucher })).to.be.rejectedWith(
+      "claimRewardFor reverted with EnforcedPause"
+    );
+
+    await hre.run("distributor:unpause", { distributor: address });
+
+    expect(await distributor.paused()).to.eq(false);
+  });
+
+  it("Schedules and executes a change of the default token", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+    const newToken = (await tokenFactory.deploy()) as Contract;
+    await newToken.waitForDeployment();
+
+    await hre.run("distributor:set-token", { distributor: address, token: await newToken.getAddress() });
+    const [operation] = await hre.run("distributor:operations", { distributor: address });
+
+    expect(operation.call).to.eq(`configureTokenAddress(${await newToken.getAddress()})`);
+    expect(operation.ready).to.eq(false);
+    await expect(
+      hre.run("distributor:execute", { distributor: address, operation: operation.operationId })
+    ).to.be.rejectedWith("executeOperation reverted with OperationNotReady");
+
+    await time.increase(OPERATION_DELAY);
+    await hre.run("distributor:execute", { distributor: address, operation: operation.operationId });
+
+    expect(await distributor.token()).to.eq(await newToken.getAddress());
+    expect(await hre.run("distributor:operations", { distributor: address })).to.deep.eq([]);
+    await expect(
+      hre.run("distributor:set-token", { distributor: address, from: user.address, token: user.address })
+    ).to.be.rejectedWith("scheduleOperation reverted with AccessControlUnauthorizedAccount");
+  });
+
+  it("Cancels a pending operation", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+    await hre.run("distributor:set-token", { distributor: address, token: user.address });
+    await hre.run("distributor:set-token", { distributor: address, token: relayer.address });
+    const [first, second] = await hre.run("distributor:operations", { distributor: address });
+
+    await hre.run("distributor:cancel", { distributor: address, operation: first.operationId });
+    await time.increase(OPERATION_DELAY);
+
+    const pending = await hre.run("distributor:operations", { distributor: address });
+    expect(pending.map((operation: { operationId: string }) => operation.operationId)).to.deep.eq([second.operationId]);
+    expect(pending[0].ready).to.eq(true);
+    await expect(
+      hre.run("distributor:execute", { distributor: address, operation: first.operationId })
+    ).to.be.rejectedWith(`No pending operation ${first.operationId}`);
+  });
+
+  it("Grants and revokes roles", async () => {
+    const { distributor } = await loadFixture(deployContracts);
+    const address = await distributor.getAddress();
+
+    await hre.run("distributor:grant-role", { distributor: address, role: "signer", account: relayer.address });
+    expect(await distributor.isSigner(relayer.address)).to.eq(false);
+    const [addition] = await hre.run("distributor:operations", { distributor: address });
+    expect(addition.call).to.eq(`addSigner(${relayer.address})`);
+    await time.increase(OPERATION_DELAY);
+    await hre.run("distributor:execute", { distributor: address, operation: addition.operationId });
+
+    expect(await distributor.isSigner(relayer.address)).to.eq(true);
+
+    await hre.run("distributor:revoke-role", { distributor: address, role: "SIGNER", account: relayer.address });
+
+    expect(await distributor.isSigner(relayer.address)).to.eq(false);
+
+    await hre.run("distributor:grant-role", { distributor: address, role: "PAUSER", account: relayer.address });
+    const [operation] = await hre.run("distributor:operations", { distributor: address });
+    await time.increase(OPERATION_DELAY);
+    await hre.run("distributor:execute", { distributor: address, operation: operation.operationId });
+
+    expect(await distributor.hasRole(await distributor.PAUSER_ROLE(), relayer.address)).to.eq(true);
+    await expect(
+      hre.run("distributor:grant-role", { distributor: address, from: user.address, role: "PAUSER", account: user.address })
+    ).to.be.rejectedWith("scheduleOperation reverted with AccessControlUnauthorizedAccount");
+    await expect(
+      hre.run("distributor:grant-role", { distributor: address, role: "OWNER", account: relayer.address })
+    ).to.be.rejectedWith("Unknown role OWNER");
+  });
+});